@@ -1,7 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { AuthManager } from "./auth-manager.js";
 import { TokenStore, type TokenData } from "./token-store.js";
 import { OAuthClient } from "./oauth-client.js";
+import { PlaintextFileBackend } from "./token-backend.js";
 
 describe("AuthManager", () => {
   let tokenStore: TokenStore;
@@ -34,11 +38,24 @@ describe("AuthManager", () => {
       load: vi.fn(),
       save: vi.fn(),
       isExpired: vi.fn(),
+      profile: "default",
     } as unknown as TokenStore;
+    // Same contract as TokenStore.update, on top of the load/save mocks
+    tokenStore.update = vi.fn(async (profile, change) => {
+      const current = await tokenStore.load(profile);
+      const next = await change(current);
+      if (next === undefined) return current;
+      if (next) await tokenStore.save(next, profile);
+      return next;
+    });
 
     oauthClient = {
       refreshToken: vi.fn(),
       authorize: vi.fn(),
+      startAuthorization: vi.fn(),
+      parseAuthorizationResponse: vi.fn(),
+      exchangeCode: vi.fn(),
+      revokeToken: vi.fn(),
     } as unknown as OAuthClient;
 
     manager = new AuthManager(tokenStore, oauthClient);
@@ -59,7 +76,7 @@ describe("AuthManager", () => {
 
     const result = await manager.getValidToken();
     expect(result).toEqual(refreshedTokens);
-    expect(tokenStore.save).toHaveBeenCalledWith(refreshedTokens);
+    expect(tokenStore.save).toHaveBeenCalledWith(refreshedTokens, "default");
   });
 
   it("triggers interactive auth when no tokens exist", async () => {
@@ -69,7 +86,7 @@ describe("AuthManager", () => {
     const result = await manager.getValidToken();
     expect(result).toEqual(validTokens);
     expect(oauthClient.authorize).toHaveBeenCalled();
-    expect(tokenStore.save).toHaveBeenCalledWith(validTokens);
+    expect(tokenStore.save).toHaveBeenCalledWith(validTokens, "default");
   });
 
   it("falls back to interactive auth when refresh fails", async () => {
@@ -84,4 +101,262 @@ describe("AuthManager", () => {
     expect(result).toEqual(validTokens);
     expect(oauthClient.authorize).toHaveBeenCalled();
   });
+
+  it("fails instead of starting a login with noReauth", async () => {
+    vi.mocked(tokenStore.load).mockResolvedValueOnce(null).mockResolvedValue(expiredTokens);
+    vi.mocked(tokenStore.isExpired).mockReturnValue(true);
+    vi.mocked(oauthClient.refreshToken).mockRejectedValue(new Error("invalid_grant"));
+
+    await expect(manager.getValidToken({ noReauth: true })).rejects.toThrow("Not authenticated");
+    await expect(manager.getValidToken({ noReauth: true })).rejects.toThrow("invalid_grant");
+    expect(oauthClient.authorize).not.toHaveBeenCalled();
+  });
+
+  it("refreshes valid tokens when forceRefresh is set", async () => {
+    vi.mocked(tokenStore.load).mockResolvedValue(validTokens);
+    vi.mocked(tokenStore.isExpired).mockReturnValue(false);
+    vi.mocked(oauthClient.refreshToken).mockResolvedValue(refreshedTokens);
+
+    const result = await manager.getValidToken({ forceRefresh: true });
+    expect(result).toEqual(refreshedTokens);
+    expect(oauthClient.refreshToken).toHaveBeenCalledWith("valid-refresh");
+    expect(tokenStore.save).toHaveBeenCalledWith(refreshedTokens, "default");
+  });
+
+  it("deduplicates concurrent forced refreshes", async () => {
+    vi.mocked(tokenStore.load).mockResolvedValue(validTokens);
+    vi.mocked(tokenStore.isExpired).mockReturnValue(false);
+    vi.mocked(oauthClient.refreshToken).mockResolvedValue(refreshedTokens);
+
+    const results = await Promise.all([
+      manager.getValidToken({ forceRefresh: true }),
+      manager.getValidToken({ forceRefresh: true }),
+    ]);
+    expect(results).toEqual([refreshedTokens, refreshedTokens]);
+    expect(oauthClient.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("saves a refresh to its own profile when the profile is switched meanwhile", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "mf-auth-test-"));
+    try {
+      const store = new TokenStore(join(dir, "tokens.json"), "client-a");
+      await store.save(expiredTokens);
+      await store.save(validTokens, "client-b");
+      let finishRefresh!: (tokens: TokenData) => void;
+      vi.mocked(oauthClient.refreshToken).mockReturnValue(
+        new Promise((resolve) => {
+          finishRefresh = resolve;
+        })
+      );
+      const real = new AuthManager(store, oauthClient);
+
+      const refresh = real.getValidToken();
+      await vi.waitFor(() => expect(oauthClient.refreshToken).toHaveBeenCalled());
+      real.switchProfile("client-b");
+      finishRefresh(refreshedTokens);
+
+      expect(await refresh).toEqual(refreshedTokens);
+      expect(await store.load("client-a")).toEqual(refreshedTokens);
+      expect(await store.load("client-b")).toEqual(validTokens);
+      expect(await real.getValidToken()).toEqual(validTokens);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("uses tokens another session refreshed instead of refreshing again", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "mf-auth-test-"));
+    try {
+      const backend = new PlaintextFileBackend(join(dir, "tokens.json"));
+      await new TokenStore(backend).save(expiredTokens);
+      let finishRefresh!: (tokens: TokenData) => void;
+      vi.mocked(oauthClient.refreshToken).mockReturnValue(
+        new Promise((resolve) => {
+          finishRefresh = resolve;
+        })
+      );
+      const sessionA = new AuthManager(new TokenStore(backend), oauthClient);
+      const sessionB = new AuthManager(new TokenStore(backend), oauthClient);
+
+      const refreshes = Promise.all([sessionA.getValidToken(), sessionB.getValidToken()]);
+      await vi.waitFor(() => expect(oauthClient.refreshToken).toHaveBeenCalled());
+      finishRefresh(refreshedTokens);
+
+      expect(await refreshes).toEqual([refreshedTokens, refreshedTokens]);
+      expect(oauthClient.refreshToken).toHaveBeenCalledTimes(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the refresh token's issue time when it was not rotated", async () => {
+    vi.mocked(tokenStore.load).mockResolvedValue({ ...expiredTokens, refresh_token_issued_at: 1000 });
+    vi.mocked(tokenStore.isExpired).mockReturnValue(true);
+    vi.mocked(oauthClient.refreshToken).mockResolvedValue({
+      ...refreshedTokens,
+      refresh_token: "expired-refresh",
+      refresh_token_issued_at: 2000,
+    });
+
+    const result = await manager.getValidToken();
+    expect(result.refresh_token_issued_at).toBe(1000);
+  });
+
+  it("reports refresh token presence and issue time", async () => {
+    vi.mocked(tokenStore.load).mockResolvedValue({ ...validTokens, refresh_token_issued_at: 1000 });
+    vi.mocked(tokenStore.isExpired).mockReturnValue(false);
+
+    expect(await manager.getAuthStatus()).toMatchObject({
+      authenticated: true,
+      hasRefreshToken: true,
+      refreshTokenIssuedAt: 1000,
+    });
+  });
+
+  describe("logout", () => {
+    it("revokes the refresh and access tokens, then deletes them", async () => {
+      vi.mocked(tokenStore.load).mockResolvedValue(validTokens);
+      vi.mocked(oauthClient.revokeToken).mockResolvedValue();
+
+      const result = await manager.logout();
+
+      expect(vi.mocked(oauthClient.revokeToken).mock.calls).toEqual([
+        ["valid-refresh", "refresh_token"],
+        ["valid-access", "access_token"],
+      ]);
+      await expect(vi.mocked(tokenStore.update).mock.results[0].value).resolves.toBeNull();
+      expect(result).toEqual({
+        profile: "default",
+        removed: true,
+        revoked: ["refresh_token", "access_token"],
+        failed: [],
+      });
+    });
+
+    it("deletes the tokens even if revocation fails", async () => {
+      vi.mocked(tokenStore.load).mockResolvedValue(validTokens);
+      vi.mocked(oauthClient.revokeToken)
+        .mockRejectedValueOnce(new Error("Token revocation failed (HTTP 503)"))
+        .mockResolvedValueOnce();
+
+      const result = await manager.logout();
+
+      await expect(vi.mocked(tokenStore.update).mock.results[0].value).resolves.toBeNull();
+      expect(result.revoked).toEqual(["access_token"]);
+      expect(result.failed).toEqual([
+        { token_type: "refresh_token", error: "Token revocation failed (HTTP 503)" },
+      ]);
+    });
+
+    it("revokes the tokens of a refresh that completes during logout", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "mf-auth-test-"));
+      try {
+        const store = new TokenStore(join(dir, "tokens.json"));
+        await store.save(expiredTokens);
+        let finishRefresh!: (tokens: TokenData) => void;
+        vi.mocked(oauthClient.refreshToken).mockReturnValue(
+          new Promise((resolve) => {
+            finishRefresh = resolve;
+          })
+        );
+        vi.mocked(oauthClient.revokeToken).mockResolvedValue();
+        const real = new AuthManager(store, oauthClient);
+
+        const refresh = real.getValidToken();
+        await vi.waitFor(() => expect(oauthClient.refreshToken).toHaveBeenCalled());
+        const logout = real.logout();
+        finishRefresh(refreshedTokens);
+        await refresh;
+
+        expect((await logout).revoked).toEqual(["refresh_token", "access_token"]);
+        expect(vi.mocked(oauthClient.revokeToken).mock.calls).toEqual([
+          ["refreshed-refresh", "refresh_token"],
+          ["refreshed-access", "access_token"],
+        ]);
+        expect(await store.load()).toBeNull();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("does not save a refresh that starts during logout", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "mf-auth-test-"));
+      try {
+        const store = new TokenStore(join(dir, "tokens.json"));
+        await store.save(expiredTokens);
+        let finishRevoke!: () => void;
+        vi.mocked(oauthClient.revokeToken)
+          .mockReturnValueOnce(
+            new Promise((resolve) => {
+              finishRevoke = resolve;
+            })
+          )
+          .mockResolvedValue();
+        const real = new AuthManager(store, oauthClient);
+
+        const logout = real.logout();
+        await vi.waitFor(() => expect(oauthClient.revokeToken).toHaveBeenCalled());
+        const refresh = real.getValidToken();
+        finishRevoke();
+        await logout;
+
+        await expect(refresh).rejects.toThrow('Profile "default" was logged out');
+        expect(oauthClient.refreshToken).not.toHaveBeenCalled();
+        expect(await store.load()).toBeNull();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("revokes nothing when the profile has no tokens", async () => {
+      vi.mocked(tokenStore.load).mockResolvedValue(null);
+
+      const result = await manager.logout();
+
+      expect(oauthClient.revokeToken).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ removed: false, revoked: [], failed: [] });
+    });
+  });
+
+  describe("headless mode", () => {
+    beforeEach(() => {
+      manager = new AuthManager(tokenStore, oauthClient, { headless: true });
+    });
+
+    it("does not open a browser when no tokens exist", async () => {
+      vi.mocked(tokenStore.load).mockResolvedValue(null);
+
+      await expect(manager.getValidToken()).rejects.toThrow("mf_auth_login");
+      expect(oauthClient.authorize).not.toHaveBeenCalled();
+    });
+
+    it("completes a login with the pasted redirect URL", async () => {
+      vi.mocked(oauthClient.startAuthorization).mockReturnValue({
+        url: "https://api.biz.moneyforward.com/authorize?state=s1",
+        state: "s1",
+        codeVerifier: "verifier-1",
+      });
+      vi.mocked(oauthClient.parseAuthorizationResponse).mockReturnValue("code-1");
+      vi.mocked(oauthClient.exchangeCode).mockResolvedValue(validTokens);
+
+      expect(manager.startHeadlessAuth()).toContain("authorize");
+      const result = await manager.completeHeadlessAuth(
+        "http://localhost:3456/callback?code=code-1&state=s1"
+      );
+
+      expect(oauthClient.parseAuthorizationResponse).toHaveBeenCalledWith(
+        "http://localhost:3456/callback?code=code-1&state=s1",
+        "s1"
+      );
+      expect(oauthClient.exchangeCode).toHaveBeenCalledWith("code-1", "verifier-1");
+      expect(tokenStore.save).toHaveBeenCalledWith(validTokens, "default");
+      expect(result).toEqual(validTokens);
+    });
+
+    it("requires a pending login before completing", async () => {
+      await expect(manager.completeHeadlessAuth("code")).rejects.toThrow(
+        "No login in progress"
+      );
+    });
+  });
 });
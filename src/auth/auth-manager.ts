@@ -1,5 +1,51 @@
-import { TokenStore, type TokenData } from "./token-store.js";
-import { OAuthClient } from "./oauth-client.js";
+import {
+  TokenStore,
+  type ProfileAccount,
+  type ProfileSummary,
+  type TokenData,
+} from "./token-store.js";
+import { OAuthClient, type TokenTypeHint } from "./oauth-client.js";
+
+/** How long a headless login started by `startHeadlessAuth` stays valid. */
+const HEADLESS_LOGIN_TTL_MS = 10 * 60_000;
+
+/**
+ * Options for AuthManager.
+ *
+ * @property headless - Never open a browser or callback server; logins go
+ *                      through `startHeadlessAuth` / `completeHeadlessAuth`
+ */
+export interface AuthManagerOptions {
+  headless?: boolean;
+}
+
+/**
+ * Options for `AuthManager.getValidToken`.
+ *
+ * @property forceRefresh - Refresh the token even if it has not expired yet
+ *                          (used after the API rejects it with 401)
+ * @property noReauth     - Fail instead of starting a login when there are
+ *                          no tokens or the refresh fails (for status checks)
+ */
+export interface TokenRequestOptions {
+  forceRefresh?: boolean;
+  noReauth?: boolean;
+}
+
+/**
+ * The outcome of `AuthManager.logout`.
+ *
+ * @property profile - The profile that was logged out
+ * @property removed - Whether the profile had tokens stored (now deleted)
+ * @property revoked - Tokens the authorization server confirmed as revoked
+ * @property failed  - Tokens whose revocation failed, with the reason
+ */
+export interface LogoutResult {
+  profile: string;
+  removed: boolean;
+  revoked: TokenTypeHint[];
+  failed: { token_type: TokenTypeHint; error: string }[];
+}
 
 /**
  * Orchestrates the OAuth2 token lifecycle for Money Forward Cloud API access.
@@ -11,6 +57,7 @@ import { OAuthClient } from "./oauth-client.js";
  * 1. **Valid token exists** - returns it immediately
  * 2. **Expired token exists** - refreshes it using the refresh token
  * 3. **No token / refresh fails** - triggers interactive browser-based auth
+ *    (in headless mode, asks the user to log in via `mf_auth_login` instead)
  *
  * @example
  * ```typescript
@@ -23,14 +70,28 @@ import { OAuthClient } from "./oauth-client.js";
  * ```
  */
 export class AuthManager {
-  /** Deduplicates concurrent refresh/auth requests. */
-  private pendingRefresh: Promise<TokenData> | null = null;
+  /** Deduplicates concurrent refresh/auth requests, per profile. */
+  private readonly pendingRefreshes = new Map<string, Promise<TokenData>>();
+
+  /** The headless login awaiting `completeHeadlessAuth`, if any. */
+  private pendingLogin: {
+    profile: string;
+    state: string;
+    codeVerifier: string;
+    expiresAt: number;
+  } | null = null;
 
   constructor(
     private readonly tokenStore: TokenStore,
-    private readonly oauthClient: OAuthClient
+    private readonly oauthClient: OAuthClient,
+    private readonly options: AuthManagerOptions = {}
   ) {}
 
+  /** Whether the manager runs in headless mode (no browser, no callback server). */
+  get headless(): boolean {
+    return this.options.headless ?? false;
+  }
+
   /**
    * Obtains a valid access token, refreshing or re-authenticating as needed.
    *
@@ -38,11 +99,23 @@ export class AuthManager {
    * 1. Load stored tokens from disk
    * 2. If no tokens exist, run interactive OAuth flow
    * 3. If tokens are still valid, return them
-   * 4. If tokens are expired, attempt a refresh
+   * 4. If tokens are expired (or `forceRefresh` is set), attempt a refresh
    * 5. If refresh fails, fall back to interactive OAuth flow
    *
+   * With `noReauth`, steps 2 and 5 throw instead of starting a login.
+   *
+   * `forceRefresh` is used when the API rejects a token that still looks
+   * valid locally (e.g. revoked server-side). Concurrent forced and
+   * expiry-driven refreshes of the same profile share the same in-flight
+   * request. A refresh belongs to the profile that was active when it
+   * started and is saved to that profile, even if the active profile is
+   * switched before it completes.
+   *
+   * @param options - Set `forceRefresh` to bypass the expiry check, and
+   *                  `noReauth` to never start a login
    * @returns A TokenData object with a valid (non-expired) access token
-   * @throws {Error} If interactive auth fails (e.g., user cancels the browser flow)
+   * @throws {Error} If interactive auth fails (e.g., user cancels the browser
+   *   flow), or with `noReauth` if a login would be needed
    *
    * @example
    * ```typescript
@@ -52,39 +125,73 @@ export class AuthManager {
    * });
    * ```
    */
-  async getValidToken(): Promise<TokenData> {
-    const stored = await this.tokenStore.load();
+  async getValidToken(options: TokenRequestOptions = {}): Promise<TokenData> {
+    const profile = this.tokenStore.profile;
+    const stored = await this.tokenStore.load(profile);
 
     if (!stored) {
+      if (options.noReauth) {
+        throw new Error(`Not authenticated (profile: ${profile}). Run mf_auth_login to authenticate.`);
+      }
       return this.doInteractiveAuth();
     }
 
-    if (!this.tokenStore.isExpired(stored)) {
+    if (!options.forceRefresh && !this.tokenStore.isExpired(stored)) {
       return stored;
     }
 
     // Deduplicate concurrent refresh attempts
-    if (this.pendingRefresh) {
-      return this.pendingRefresh;
+    const pending = this.pendingRefreshes.get(profile);
+    if (pending) {
+      return pending;
     }
 
-    this.pendingRefresh = this.refreshOrReauth(stored.refresh_token);
+    const refresh = this.refreshOrReauth(profile, stored, options.noReauth ?? false);
+    this.pendingRefreshes.set(profile, refresh);
     try {
-      return await this.pendingRefresh;
+      return await refresh;
     } finally {
-      this.pendingRefresh = null;
+      this.pendingRefreshes.delete(profile);
     }
   }
 
-  private async refreshOrReauth(refreshToken: string): Promise<TokenData> {
+  /**
+   * Refreshes a profile's tokens while holding the token store's write lock.
+   *
+   * Other sessions may share the profile through the same backend: if the
+   * stored tokens changed while this one waited for the lock, another
+   * session already refreshed them (or logged the profile out), and the
+   * stored tokens are used instead of spending the refresh token again.
+   */
+  private async refreshOrReauth(
+    profile: string,
+    stored: TokenData,
+    noReauth: boolean
+  ): Promise<TokenData> {
+    let tokens: TokenData | null;
     try {
-      const refreshed = await this.oauthClient.refreshToken(refreshToken);
-      await this.tokenStore.save(refreshed);
-      return refreshed;
-    } catch {
+      tokens = await this.tokenStore.update(profile, async (current) => {
+        if (current?.access_token !== stored.access_token) return undefined;
+        const refreshed = await this.oauthClient.refreshToken(stored.refresh_token);
+        // A refresh token that was not rotated keeps its original age
+        if (
+          refreshed.refresh_token === stored.refresh_token &&
+          stored.refresh_token_issued_at !== undefined
+        ) {
+          refreshed.refresh_token_issued_at = stored.refresh_token_issued_at;
+        }
+        return refreshed;
+      });
+    } catch (error) {
+      // Never start a login for a profile that is no longer active
+      if (noReauth || profile !== this.tokenStore.profile) throw error;
       console.error("Token refresh failed. Starting interactive auth...");
       return this.doInteractiveAuth();
     }
+    if (!tokens) {
+      throw new Error(`Profile "${profile}" was logged out while its token was being refreshed.`);
+    }
+    return tokens;
   }
 
   /**
@@ -95,23 +202,160 @@ export class AuthManager {
    * to the token store.
    *
    * @returns The newly obtained token data
-   * @throws {Error} If the OAuth flow fails or the user cancels
+   * @throws {Error} If the OAuth flow fails or the user cancels, or in
+   *   headless mode (where login must go through `startHeadlessAuth`)
    */
   async doInteractiveAuth(): Promise<TokenData> {
+    if (this.headless) {
+      throw new Error(
+        "Not authenticated. Run mf_auth_login to get a login URL, then mf_auth_complete with the redirect URL."
+      );
+    }
+    const profile = this.tokenStore.profile;
     const tokens = await this.oauthClient.authorize();
-    await this.tokenStore.save(tokens);
+    await this.tokenStore.save(tokens, profile);
     return tokens;
   }
 
+  /**
+   * Starts a headless login: returns the URL the user must open in any
+   * browser. The login is completed with `completeHeadlessAuth` within 10
+   * minutes; starting a new login invalidates the previous one.
+   *
+   * @returns The authorization URL
+   */
+  startHeadlessAuth(): string {
+    const { url, state, codeVerifier } = this.oauthClient.startAuthorization();
+    this.pendingLogin = {
+      profile: this.tokenStore.profile,
+      state,
+      codeVerifier,
+      expiresAt: Date.now() + HEADLESS_LOGIN_TTL_MS,
+    };
+    return url;
+  }
+
+  /**
+   * Completes a headless login with the redirect URL (or code) the user pasted.
+   *
+   * @param authorizationResponse - The full redirect URL, or the bare code
+   * @returns The newly obtained token data
+   * @throws {Error} If no login is pending, it expired, the state mismatches,
+   *   or the code exchange fails
+   */
+  async completeHeadlessAuth(authorizationResponse: string): Promise<TokenData> {
+    const pending = this.pendingLogin;
+    if (!pending) {
+      throw new Error("No login in progress. Run mf_auth_login first.");
+    }
+    if (pending.expiresAt < Date.now()) {
+      this.pendingLogin = null;
+      throw new Error("The login URL has expired. Run mf_auth_login again.");
+    }
+    const code = this.oauthClient.parseAuthorizationResponse(
+      authorizationResponse,
+      pending.state
+    );
+    this.pendingLogin = null;
+    const tokens = await this.oauthClient.exchangeCode(
+      code,
+      pending.codeVerifier
+    );
+    await this.tokenStore.save(tokens, pending.profile);
+    return tokens;
+  }
+
+  /** The name of the active token profile. */
+  get profile(): string {
+    return this.tokenStore.profile;
+  }
+
+  /**
+   * Lists all stored token profiles.
+   *
+   * @returns Profile summaries including token expiry and cached account info
+   */
+  async listProfiles(): Promise<ProfileSummary[]> {
+    return this.tokenStore.listProfiles();
+  }
+
+  /**
+   * Switches the active token profile.
+   *
+   * Subsequent API calls use the new profile's tokens. A profile without
+   * tokens triggers interactive auth on first use. A refresh or headless
+   * login still in flight completes for the profile it was started for.
+   *
+   * @param name - The profile to activate
+   * @throws {Error} If the profile name is invalid
+   */
+  switchProfile(name: string): void {
+    this.tokenStore.useProfile(name);
+  }
+
+  /**
+   * Logs the active profile out: revokes its refresh and access tokens at
+   * Money Forward, then deletes its entry from the token store.
+   *
+   * The entry is deleted even if revocation fails (e.g. the server is
+   * unreachable); failures are reported in the result. Any headless login in
+   * progress is abandoned. Logout holds the token store's write lock, so a
+   * refresh in flight (in this or another session) either completes first,
+   * and the tokens it saved are the ones revoked, or finds the profile
+   * logged out and saves nothing.
+   *
+   * @returns What was revoked and deleted
+   * @throws {Error} If the token store cannot be read or written
+   */
+  async logout(): Promise<LogoutResult> {
+    this.pendingLogin = null;
+    const profile = this.tokenStore.profile;
+    const result: LogoutResult = { profile, removed: false, revoked: [], failed: [] };
+    await this.tokenStore.update(profile, async (stored) => {
+      if (!stored) return null;
+      // Revoking the refresh token first keeps it from minting new access tokens
+      const tokens: [TokenTypeHint, string][] = [
+        ["refresh_token", stored.refresh_token],
+        ["access_token", stored.access_token],
+      ];
+      for (const [tokenType, token] of tokens) {
+        try {
+          await this.oauthClient.revokeToken(token, tokenType);
+          result.revoked.push(tokenType);
+        } catch (error) {
+          result.failed.push({
+            token_type: tokenType,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      result.removed = true;
+      return null;
+    });
+    return result;
+  }
+
+  /**
+   * Caches the Money Forward account information for the active profile.
+   *
+   * @param account - The account/office information to store
+   */
+  async saveProfileAccount(account: ProfileAccount): Promise<void> {
+    await this.tokenStore.saveAccount(account);
+  }
+
   /**
    * Returns the current authentication status without triggering any auth flow.
    *
    * Useful for displaying status information to the user or for health checks.
    *
    * @returns An object describing the current auth state:
+   *   - `profile`: The active token profile
    *   - `authenticated`: true if a non-expired token exists
    *   - `expiresAt`: Unix timestamp (ms) of token expiry, or null if not authenticated
    *   - `scope`: The granted OAuth scope, or null if not authenticated
+   *   - `hasRefreshToken`: true if a refresh token is stored
+   *   - `refreshTokenIssuedAt`: Unix timestamp (ms) the refresh token was issued, or null if unknown
    *
    * @example
    * ```typescript
@@ -122,18 +366,32 @@ export class AuthManager {
    * ```
    */
   async getAuthStatus(): Promise<{
+    profile: string;
     authenticated: boolean;
     expiresAt: number | null;
     scope: string | null;
+    hasRefreshToken: boolean;
+    refreshTokenIssuedAt: number | null;
   }> {
     const stored = await this.tokenStore.load();
+    const profile = this.tokenStore.profile;
     if (!stored) {
-      return { authenticated: false, expiresAt: null, scope: null };
+      return {
+        profile,
+        authenticated: false,
+        expiresAt: null,
+        scope: null,
+        hasRefreshToken: false,
+        refreshTokenIssuedAt: null,
+      };
     }
     return {
+      profile,
       authenticated: !this.tokenStore.isExpired(stored),
       expiresAt: stored.expires_at,
       scope: stored.scope,
+      hasRefreshToken: stored.refresh_token !== "",
+      refreshTokenIssuedAt: stored.refresh_token_issued_at ?? null,
     };
   }
 }
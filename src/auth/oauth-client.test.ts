@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { OAuthClient } from "./oauth-client.js";
+import { createHash } from "node:crypto";
+import { OAuthClient, codeChallengeFor } from "./oauth-client.js";
 
 describe("OAuthClient", () => {
   const client = new OAuthClient({
@@ -41,4 +42,84 @@ describe("OAuthClient", () => {
     expect(body.get("client_id")).toBe("test-client-id");
     expect(body.get("client_secret")).toBe("test-client-secret");
   });
+
+  it("builds correct revocation request body", () => {
+    const body = client.buildRevokeRequestBody("refresh-xyz", "refresh_token");
+    expect(body.get("token")).toBe("refresh-xyz");
+    expect(body.get("token_type_hint")).toBe("refresh_token");
+    expect(body.get("client_id")).toBe("test-client-id");
+    expect(body.get("client_secret")).toBe("test-client-secret");
+  });
+
+  it("starts an authorization with a random state", () => {
+    const { url, state } = client.startAuthorization();
+    expect(state).toMatch(/^[0-9a-f]{32}$/);
+    expect(new URL(url).searchParams.get("state")).toBe(state);
+  });
+
+  it("sends an S256 PKCE challenge matching the verifier", () => {
+    const { url, codeVerifier } = client.startAuthorization();
+    const params = new URL(url).searchParams;
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("code_challenge")).toBe(codeChallengeFor(codeVerifier));
+  });
+
+  it("computes the challenge as unpadded base64url SHA-256", () => {
+    const expected = createHash("sha256")
+      .update("test-verifier")
+      .digest("base64")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+    expect(codeChallengeFor("test-verifier")).toBe(expected);
+  });
+
+  it("includes the code verifier in the token request", () => {
+    const body = client.buildTokenRequestBody("auth-code-123", "verifier");
+    expect(body.get("code_verifier")).toBe("verifier");
+  });
+
+  it("requests only the configured scopes", () => {
+    const readOnly = new OAuthClient({
+      clientId: "test-client-id",
+      clientSecret: "test-client-secret",
+      redirectUri: "http://localhost:3456/callback",
+      scopes: ["transaction:read", "mfc/invoice/data.read"],
+    });
+    const url = new URL(readOnly.buildAuthorizationUrl("s"));
+    expect(url.searchParams.get("scope")).toBe(
+      "transaction:read mfc/invoice/data.read"
+    );
+  });
+
+  it("extracts the code from a pasted redirect URL after checking state", () => {
+    const code = client.parseAuthorizationResponse(
+      "http://localhost:3456/callback?code=abc123&state=s1",
+      "s1"
+    );
+    expect(code).toBe("abc123");
+  });
+
+  it("rejects a redirect URL with a mismatched state", () => {
+    expect(() =>
+      client.parseAuthorizationResponse(
+        "http://localhost:3456/callback?code=abc123&state=other",
+        "s1"
+      )
+    ).toThrow("state mismatch");
+  });
+
+  it("reports a denied authorization", () => {
+    expect(() =>
+      client.parseAuthorizationResponse(
+        "http://localhost:3456/callback?error=access_denied&state=s1",
+        "s1"
+      )
+    ).toThrow("access_denied");
+  });
+
+  it("accepts a bare authorization code", () => {
+    expect(client.parseAuthorizationResponse("  abc123 \n", "s1")).toBe("abc123");
+  });
 });
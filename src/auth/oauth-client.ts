@@ -1,7 +1,8 @@
 import { type TokenData } from "./token-store.js";
 import { waitForCallback } from "./callback-server.js";
-import { randomBytes } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
 import { execFile } from "node:child_process";
+import { SCOPE_PRESETS } from "./scopes.js";
 
 /** Base URL for Money Forward Cloud OAuth endpoints. */
 const MF_AUTH_BASE = "https://api.biz.moneyforward.com";
@@ -9,20 +10,11 @@ const MF_AUTH_BASE = "https://api.biz.moneyforward.com";
 /** Token endpoint URL. */
 const MF_TOKEN_URL = `${MF_AUTH_BASE}/token`;
 
-/**
- * All OAuth scopes requested by this MCP server.
- *
- * Covers office settings, user settings, transactions, reports,
- * and invoice data (both read and write).
- */
-const ALL_SCOPES = [
-  "office_setting:write",
-  "user_setting:write",
-  "transaction:write",
-  "report:write",
-  "mfc/invoice/data.read",
-  "mfc/invoice/data.write",
-].join(" ");
+/** Token revocation endpoint URL (RFC 7009). */
+const MF_REVOKE_URL = `${MF_AUTH_BASE}/revoke`;
+
+/** The kind of token passed to `revokeToken`. */
+export type TokenTypeHint = "access_token" | "refresh_token";
 
 /**
  * Configuration required to initialize an OAuth client.
@@ -30,19 +22,54 @@ const ALL_SCOPES = [
  * @property clientId - The OAuth2 client ID registered with Money Forward
  * @property clientSecret - The OAuth2 client secret
  * @property redirectUri - The redirect URI registered with Money Forward
+ * @property scopes - The scopes to request (default: the `full` preset)
  */
 interface OAuthConfig {
   clientId: string;
   clientSecret: string;
   redirectUri: string;
+  scopes?: string[];
+}
+
+/**
+ * A started authorization awaiting its callback.
+ *
+ * @property url - The authorization URL the user must open
+ * @property state - The CSRF state to validate the callback against
+ * @property codeVerifier - The PKCE verifier to send with the code exchange
+ */
+export interface PendingAuthorization {
+  url: string;
+  state: string;
+  codeVerifier: string;
+}
+
+/**
+ * Generates a PKCE code verifier (RFC 7636): 43 URL-safe characters.
+ *
+ * @returns A fresh random verifier
+ */
+export function generateCodeVerifier(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Computes the S256 code challenge for a PKCE verifier.
+ *
+ * @param verifier - The code verifier
+ * @returns BASE64URL(SHA256(verifier))
+ */
+export function codeChallengeFor(verifier: string): string {
+  return createHash("sha256").update(verifier).digest("base64url");
 }
 
 /**
  * OAuth2 client for the Money Forward Cloud API.
  *
- * Implements the Authorization Code flow with support for token exchange
- * and refresh. When used interactively, the `authorize` method opens the
- * user's browser, starts a local callback server, and waits for the
+ * Implements the Authorization Code flow with PKCE (S256) and support for
+ * token exchange and refresh. The requested scopes are configurable (e.g.
+ * a read-only preset). When used interactively, the `authorize` method
+ * opens the user's browser, starts a local callback server, and waits for the
  * authorization code.
  *
  * @example
@@ -63,20 +90,30 @@ interface OAuthConfig {
 export class OAuthClient {
   constructor(private readonly config: OAuthConfig) {}
 
+  /** The scopes requested during authorization. */
+  get scopes(): string[] {
+    return this.config.scopes ?? SCOPE_PRESETS.full;
+  }
+
   /**
    * Builds the authorization URL that the user should visit to grant access.
    *
    * @param state - A random string for CSRF protection
+   * @param codeChallenge - The PKCE S256 code challenge, if PKCE is used
    * @returns The fully-formed authorization URL
    */
-  buildAuthorizationUrl(state: string): string {
+  buildAuthorizationUrl(state: string, codeChallenge?: string): string {
     const params = new URLSearchParams({
       client_id: this.config.clientId,
       redirect_uri: this.config.redirectUri,
       response_type: "code",
-      scope: ALL_SCOPES,
+      scope: this.scopes.join(" "),
       state,
     });
+    if (codeChallenge) {
+      params.set("code_challenge", codeChallenge);
+      params.set("code_challenge_method", "S256");
+    }
     return `${MF_AUTH_BASE}/authorize?${params.toString()}`;
   }
 
@@ -84,16 +121,19 @@ export class OAuthClient {
    * Builds the request body for exchanging an authorization code for tokens.
    *
    * @param code - The authorization code received from the OAuth callback
+   * @param codeVerifier - The PKCE verifier matching the authorization's challenge
    * @returns URL-encoded form body suitable for a POST to the token endpoint
    */
-  buildTokenRequestBody(code: string): URLSearchParams {
-    return new URLSearchParams({
+  buildTokenRequestBody(code: string, codeVerifier?: string): URLSearchParams {
+    const body = new URLSearchParams({
       grant_type: "authorization_code",
       code,
       client_id: this.config.clientId,
       client_secret: this.config.clientSecret,
       redirect_uri: this.config.redirectUri,
     });
+    if (codeVerifier) body.set("code_verifier", codeVerifier);
+    return body;
   }
 
   /**
@@ -111,15 +151,32 @@ export class OAuthClient {
     });
   }
 
+  /**
+   * Builds the request body for revoking a token.
+   *
+   * @param token - The access or refresh token to revoke
+   * @param tokenTypeHint - Which kind of token it is
+   * @returns URL-encoded form body suitable for a POST to the revocation endpoint
+   */
+  buildRevokeRequestBody(token: string, tokenTypeHint: TokenTypeHint): URLSearchParams {
+    return new URLSearchParams({
+      token,
+      token_type_hint: tokenTypeHint,
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+    });
+  }
+
   /**
    * Exchanges an authorization code for access and refresh tokens.
    *
    * @param code - The authorization code from the OAuth callback
+   * @param codeVerifier - The PKCE verifier from `startAuthorization`
    * @returns The token data including access token, refresh token, and expiry
    * @throws {Error} If the token endpoint returns an error response
    */
-  async exchangeCode(code: string): Promise<TokenData> {
-    const body = this.buildTokenRequestBody(code);
+  async exchangeCode(code: string, codeVerifier?: string): Promise<TokenData> {
+    const body = this.buildTokenRequestBody(code, codeVerifier);
     const res = await fetch(MF_TOKEN_URL, {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -144,6 +201,7 @@ export class OAuthClient {
       refresh_token: json.refresh_token,
       expires_at: Date.now() + json.expires_in * 1000,
       scope: json.scope,
+      refresh_token_issued_at: Date.now(),
     };
   }
 
@@ -179,9 +237,87 @@ export class OAuthClient {
       refresh_token: json.refresh_token,
       expires_at: Date.now() + json.expires_in * 1000,
       scope: json.scope,
+      refresh_token_issued_at: Date.now(),
+    };
+  }
+
+  /**
+   * Revokes an access or refresh token at the authorization server.
+   *
+   * @param token - The token to revoke
+   * @param tokenTypeHint - Which kind of token it is
+   * @throws {Error} If the revocation endpoint returns an error response
+   */
+  async revokeToken(token: string, tokenTypeHint: TokenTypeHint): Promise<void> {
+    const body = this.buildRevokeRequestBody(token, tokenTypeHint);
+    const res = await fetch(MF_REVOKE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+    });
+
+    // Consume body but don't include it in error message to prevent leaking server internals
+    await res.text();
+    if (!res.ok) {
+      throw new Error(`Token revocation failed (HTTP ${res.status})`);
+    }
+  }
+
+  /**
+   * Starts an authorization code flow with PKCE.
+   *
+   * Generates a fresh CSRF `state`, a PKCE code verifier and the matching
+   * authorization URL. The caller shows the URL to the user, validates the
+   * callback's state (e.g. via `parseAuthorizationResponse` in headless
+   * mode) and passes the verifier to `exchangeCode`.
+   *
+   * @returns The authorization URL, state and code verifier
+   */
+  startAuthorization(): PendingAuthorization {
+    const state = randomBytes(16).toString("hex");
+    const codeVerifier = generateCodeVerifier();
+    return {
+      url: this.buildAuthorizationUrl(state, codeChallengeFor(codeVerifier)),
+      state,
+      codeVerifier,
     };
   }
 
+  /**
+   * Extracts the authorization code from a pasted redirect URL or bare code.
+   *
+   * When a full redirect URL is given, its `state` must match
+   * `expectedState` and an `error` parameter is reported as a failure.
+   *
+   * @param input - The redirect URL from the browser's address bar, or the code itself
+   * @param expectedState - The state generated by `startAuthorization`
+   * @returns The authorization code
+   * @throws {Error} If authorization was denied, the state mismatches, or no code is present
+   */
+  parseAuthorizationResponse(input: string, expectedState: string): string {
+    const trimmed = input.trim();
+    if (!/^https?:\/\//i.test(trimmed) && !trimmed.includes("?")) {
+      if (!trimmed) throw new Error("No authorization code provided");
+      return trimmed;
+    }
+
+    const query = trimmed.includes("?")
+      ? trimmed.slice(trimmed.indexOf("?") + 1)
+      : "";
+    const params = new URLSearchParams(query.split("#")[0]);
+    if (params.get("error")) {
+      throw new Error(`OAuth authorization was denied: ${params.get("error")}`);
+    }
+    if (params.get("state") !== expectedState) {
+      throw new Error("OAuth state mismatch — possible CSRF attack");
+    }
+    const code = params.get("code");
+    if (!code) {
+      throw new Error("The pasted URL does not contain an authorization code");
+    }
+    return code;
+  }
+
   /**
    * Runs the full interactive OAuth authorization flow.
    *
@@ -194,8 +330,7 @@ export class OAuthClient {
    * @throws {Error} If the browser cannot be opened or the OAuth flow fails
    */
   async authorize(port: number = 3456): Promise<TokenData> {
-    const state = randomBytes(16).toString("hex");
-    const authUrl = this.buildAuthorizationUrl(state);
+    const { url: authUrl, state, codeVerifier } = this.startAuthorization();
 
     console.error(`\nPlease open this URL in your browser to authenticate:`);
     console.error(authUrl);
@@ -220,6 +355,6 @@ export class OAuthClient {
     const { code, server } = await waitForCallback(port, state);
     server.close();
 
-    return this.exchangeCode(code);
+    return this.exchangeCode(code, codeVerifier);
   }
 }
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  MissingScopeError,
+  SCOPE_PRESETS,
+  assertScope,
+  recognizedScopes,
+  requiredScopes,
+  resolveScopes,
+  toolRequiredScopes,
+} from "./scopes.js";
+
+const EXPENSE = "https://expense.moneyforward.com/api/external";
+const INVOICE = "https://invoice.moneyforward.com/api/v3";
+
+describe("resolveScopes", () => {
+  it("defaults to the full preset", () => {
+    expect(resolveScopes(undefined)).toEqual(SCOPE_PRESETS.full);
+    expect(resolveScopes("  ")).toEqual(SCOPE_PRESETS.full);
+  });
+
+  it("expands a preset name", () => {
+    expect(resolveScopes("read-only")).toContain("transaction:read");
+    expect(resolveScopes("read-only")).not.toContain("transaction:write");
+  });
+
+  it("accepts an explicit space- or comma-separated list", () => {
+    expect(resolveScopes("report:read, mfc/invoice/data.read")).toEqual([
+      "report:read",
+      "mfc/invoice/data.read",
+    ]);
+  });
+
+  it("rejects an unknown preset", () => {
+    expect(() => resolveScopes("readonly")).toThrow("Unknown scope preset");
+  });
+});
+
+describe("requiredScopes", () => {
+  it("accepts read or write scopes for GET", () => {
+    expect(requiredScopes("GET", `${INVOICE}/billings?page=1`)).toEqual([
+      "mfc/invoice/data.read",
+      "mfc/invoice/data.write",
+    ]);
+  });
+
+  it("requires the write scope for mutations", () => {
+    expect(
+      requiredScopes("PUT", `${EXPENSE}/v1/offices/1/me/approving_ex_reports/9/approve`)
+    ).toEqual(["report:write"]);
+    expect(
+      requiredScopes("POST", `${EXPENSE}/v1/offices/1/me/ex_transactions`)
+    ).toEqual(["transaction:write"]);
+  });
+
+  it("maps Expense master data and the profile endpoint", () => {
+    expect(requiredScopes("GET", `${EXPENSE}/v1/offices/1/ex_items`)).toContain(
+      "office_setting:read"
+    );
+    expect(requiredScopes("GET", `${EXPENSE}/v2/offices/1/me`)).toContain(
+      "user_setting:read"
+    );
+  });
+
+  it("returns null for unknown hosts", () => {
+    expect(requiredScopes("GET", "https://example.com/list")).toBeNull();
+  });
+});
+
+describe("toolRequiredScopes", () => {
+  it("maps tools to their scope family", () => {
+    expect(toolRequiredScopes("invoice_list_billings", false)).toEqual([
+      "mfc/invoice/data.read",
+      "mfc/invoice/data.write",
+    ]);
+    expect(toolRequiredScopes("invoice_delete_billing", true)).toEqual(["mfc/invoice/data.write"]);
+    expect(toolRequiredScopes("expense_get_me", false)).toContain("user_setting:read");
+    expect(toolRequiredScopes("expense_approve_report", true)).toEqual(["report:write"]);
+    expect(toolRequiredScopes("expense_list_transactions", false)).toContain("transaction:read");
+    expect(toolRequiredScopes("expense_list_departments", false)).toContain("office_setting:read");
+  });
+
+  it("returns null for tools without a scoped API", () => {
+    expect(toolRequiredScopes("mf_auth_status", false)).toBeNull();
+  });
+});
+
+describe("recognizedScopes", () => {
+  it("keeps only known scopes", () => {
+    expect(recognizedScopes("openid report:read  mfc/invoice/data.read")).toEqual([
+      "report:read",
+      "mfc/invoice/data.read",
+    ]);
+    expect(recognizedScopes(null)).toEqual([]);
+  });
+});
+
+describe("assertScope", () => {
+  it("throws MissingScopeError when no acceptable scope was granted", () => {
+    expect(() =>
+      assertScope("mfc/invoice/data.read", "DELETE", `${INVOICE}/billings/1`)
+    ).toThrow(MissingScopeError);
+  });
+
+  it("treats a write scope as granting read access", () => {
+    expect(() =>
+      assertScope("mfc/invoice/data.write", "GET", `${INVOICE}/billings`)
+    ).not.toThrow();
+  });
+
+  it("skips the check for unrecognized scope strings", () => {
+    expect(() => assertScope("test", "DELETE", `${INVOICE}/billings/1`)).not.toThrow();
+  });
+});
@@ -0,0 +1,192 @@
+import { EXPENSE_BASE_URL } from "../types/expense.js";
+import { INVOICE_BASE_URL } from "../types/invoice.js";
+
+/**
+ * Scope families used by this MCP server. Each family has a `read` and a
+ * `write` scope; a write scope also grants read access.
+ */
+const SCOPE_FAMILIES = {
+  office_setting: { read: "office_setting:read", write: "office_setting:write" },
+  user_setting: { read: "user_setting:read", write: "user_setting:write" },
+  transaction: { read: "transaction:read", write: "transaction:write" },
+  report: { read: "report:read", write: "report:write" },
+  invoice: { read: "mfc/invoice/data.read", write: "mfc/invoice/data.write" },
+} as const;
+
+type ScopeFamily = keyof typeof SCOPE_FAMILIES;
+
+const EXPENSE_FAMILIES: ScopeFamily[] = [
+  "office_setting",
+  "user_setting",
+  "transaction",
+  "report",
+];
+
+/** Every scope this server knows how to check. */
+export const KNOWN_SCOPES: string[] = Object.values(SCOPE_FAMILIES).flatMap(
+  (f) => [f.read, f.write]
+);
+
+/**
+ * Named scope sets selectable via `MF_SCOPES`.
+ *
+ * `full` is the default and matches what earlier versions always requested.
+ */
+export const SCOPE_PRESETS: Record<string, string[]> = {
+  full: [
+    ...EXPENSE_FAMILIES.map((f) => SCOPE_FAMILIES[f].write),
+    SCOPE_FAMILIES.invoice.read,
+    SCOPE_FAMILIES.invoice.write,
+  ],
+  "read-only": [
+    ...EXPENSE_FAMILIES.map((f) => SCOPE_FAMILIES[f].read),
+    SCOPE_FAMILIES.invoice.read,
+  ],
+  expense: EXPENSE_FAMILIES.map((f) => SCOPE_FAMILIES[f].write),
+  "expense-read-only": EXPENSE_FAMILIES.map((f) => SCOPE_FAMILIES[f].read),
+  invoice: [SCOPE_FAMILIES.invoice.read, SCOPE_FAMILIES.invoice.write],
+  "invoice-read-only": [SCOPE_FAMILIES.invoice.read],
+};
+
+/**
+ * Resolves the `MF_SCOPES` setting to the list of scopes to request.
+ *
+ * Accepts a preset name (`full`, `read-only`, `expense`, ...) or an
+ * explicit list of scopes separated by spaces or commas. Unset or empty
+ * means `full`.
+ *
+ * @param value - The MF_SCOPES value
+ * @returns The scopes to request
+ * @throws {Error} If the value is neither a preset nor a scope list
+ */
+export function resolveScopes(value?: string): string[] {
+  const trimmed = value?.trim();
+  if (!trimmed) return SCOPE_PRESETS.full;
+  const preset = SCOPE_PRESETS[trimmed];
+  if (preset) return preset;
+
+  const scopes = trimmed.split(/[\s,]+/).filter(Boolean);
+  const invalid = scopes.filter((s) => !/[:/]/.test(s));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Unknown scope preset or scope "${invalid[0]}" in MF_SCOPES. ` +
+        `Use one of ${Object.keys(SCOPE_PRESETS).join(", ")} or a list of scopes.`
+    );
+  }
+  return scopes;
+}
+
+/** Maps an Expense API path (below the base URL) to its scope family. */
+function expenseFamily(path: string): ScopeFamily | null {
+  if (/^\/v\d+\/offices\/?$/.test(path)) return "office_setting";
+  const match = /^\/v\d+\/offices\/[^/]+(\/.*)?$/.exec(path);
+  if (!match) return null;
+  const rest = match[1] ?? "";
+  if (rest === "") return "office_setting";
+  if (rest === "/me") return "user_setting";
+  if (/ex_reports|ex_journals_by_ex_reports/.test(rest)) return "report";
+  if (/ex_transactions/.test(rest)) return "transaction";
+  return "office_setting";
+}
+
+/**
+ * Returns the scopes that allow a request, any one of which is sufficient.
+ *
+ * Reads are allowed by the family's read or write scope; every other method
+ * needs the write scope. URLs outside the known APIs are not checked.
+ *
+ * @param method - The HTTP method
+ * @param url    - The full request URL (query string is ignored)
+ * @returns The acceptable scopes, or null if the URL has no known requirement
+ */
+export function requiredScopes(method: string, url: string): string[] | null {
+  const path = url.split("?")[0];
+  let family: ScopeFamily | null = null;
+  if (path.startsWith(INVOICE_BASE_URL)) {
+    family = "invoice";
+  } else if (path.startsWith(EXPENSE_BASE_URL)) {
+    family = expenseFamily(path.slice(EXPENSE_BASE_URL.length));
+  }
+  if (!family) return null;
+  const { read, write } = SCOPE_FAMILIES[family];
+  return method === "GET" || method === "HEAD" ? [read, write] : [write];
+}
+
+/** Maps a tool name to the scope family its API calls need. */
+function toolFamily(name: string): ScopeFamily | null {
+  if (name.startsWith("invoice_")) return "invoice";
+  if (!name.startsWith("expense_")) return null;
+  if (name === "expense_get_me") return "user_setting";
+  if (name.includes("report")) return "report";
+  if (name.includes("transaction")) return "transaction";
+  return "office_setting";
+}
+
+/**
+ * Returns the scopes that allow a tool, any one of which is sufficient.
+ *
+ * Like `requiredScopes`, but keyed by tool name so availability can be
+ * reported without making a request.
+ *
+ * @param name     - The tool name
+ * @param mutating - Whether the tool writes data (needs the write scope)
+ * @returns The acceptable scopes, or null for tools that call no scoped API
+ */
+export function toolRequiredScopes(name: string, mutating: boolean): string[] | null {
+  const family = toolFamily(name);
+  if (!family) return null;
+  const { read, write } = SCOPE_FAMILIES[family];
+  return mutating ? [write] : [read, write];
+}
+
+/**
+ * Splits a token's scope string, keeping only the scopes this server knows.
+ *
+ * @param grantedScope - The space-separated scope string of the token
+ * @returns The recognized scopes (empty if none are recognized)
+ */
+export function recognizedScopes(grantedScope: string | null | undefined): string[] {
+  return (grantedScope ?? "").split(/\s+/).filter((s) => KNOWN_SCOPES.includes(s));
+}
+
+/**
+ * Error thrown before a request is sent when the token lacks the scope the
+ * endpoint needs, instead of letting the API answer with an opaque 403.
+ */
+export class MissingScopeError extends Error {
+  constructor(
+    public readonly required: string[],
+    public readonly granted: string[]
+  ) {
+    super(
+      `This operation needs the OAuth scope ${required.join(" or ")}, which the current token was not granted ` +
+        `(granted: ${granted.join(" ") || "none"}). ` +
+        "Add it to MF_SCOPES (or use MF_SCOPES=full) and log in again with mf_auth_login."
+    );
+    this.name = "MissingScopeError";
+  }
+}
+
+/**
+ * Throws if the granted scopes do not allow the request.
+ *
+ * Only checks tokens whose scope string contains at least one scope this
+ * server knows; otherwise the decision is left to the API.
+ *
+ * @param grantedScope - The space-separated scope string of the token
+ * @param method       - The HTTP method
+ * @param url          - The full request URL
+ * @throws {MissingScopeError} If none of the acceptable scopes was granted
+ */
+export function assertScope(
+  grantedScope: string | undefined,
+  method: string,
+  url: string
+): void {
+  const granted = (grantedScope ?? "").split(/\s+/).filter(Boolean);
+  if (!granted.some((s) => KNOWN_SCOPES.includes(s))) return;
+  const required = requiredScopes(method, url);
+  if (required && !required.some((s) => granted.includes(s))) {
+    throw new MissingScopeError(required, granted);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  EncryptedFileBackend,
+  PlaintextFileBackend,
+  createTokenBackend,
+} from "./token-backend.js";
+import { TokenStore, type TokenData } from "./token-store.js";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+describe("token backends", () => {
+  let tempDir: string;
+
+  const tokens: TokenData = {
+    access_token: "secret-access",
+    refresh_token: "secret-refresh",
+    expires_at: Date.now() + 3600_000,
+    scope: "office_setting:write",
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "mf-backend-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("round-trips plaintext with owner-only permissions", async () => {
+    const backend = new PlaintextFileBackend(join(tempDir, "tokens.json"));
+    expect(await backend.read()).toBeNull();
+    await backend.write('{"a":1}');
+    expect(await backend.read()).toBe('{"a":1}');
+    expect(statSync(join(tempDir, "tokens.json")).mode & 0o777).toBe(0o600);
+  });
+
+  it("encrypts tokens at rest", async () => {
+    const filePath = join(tempDir, "tokens.enc.json");
+    const store = new TokenStore(new EncryptedFileBackend(filePath, "pass"));
+    await store.save(tokens);
+
+    const raw = readFileSync(filePath, "utf-8");
+    expect(raw).not.toContain("secret-access");
+    expect(JSON.parse(raw).algorithm).toBe("aes-256-gcm");
+
+    const reopened = new TokenStore(new EncryptedFileBackend(filePath, "pass"));
+    expect(await reopened.load()).toEqual(tokens);
+  });
+
+  it("refuses to read with the wrong passphrase", async () => {
+    const filePath = join(tempDir, "tokens.enc.json");
+    await new EncryptedFileBackend(filePath, "right").write("{}");
+
+    await expect(new EncryptedFileBackend(filePath, "wrong").read()).rejects.toThrow(
+      "Could not decrypt the token file"
+    );
+  });
+
+  it("migrates an existing plaintext tokens.json on first load", async () => {
+    const legacyPath = join(tempDir, "tokens.json");
+    writeFileSync(legacyPath, JSON.stringify(tokens));
+
+    const backend = await createTokenBackend({ dir: tempDir, passphrase: "pass" });
+    const store = new TokenStore(backend);
+
+    expect(await store.load()).toEqual(tokens);
+    expect(existsSync(legacyPath)).toBe(false);
+    expect(existsSync(join(tempDir, "tokens.enc.json"))).toBe(true);
+  });
+
+  it("uses a key file as the secret", async () => {
+    const keyFile = join(tempDir, "key");
+    writeFileSync(keyFile, "0123456789abcdef0123456789abcdef");
+
+    const backend = await createTokenBackend({ dir: tempDir, keyFile });
+    expect(backend.description).toContain("encrypted");
+    await new TokenStore(backend).save(tokens);
+
+    const again = await createTokenBackend({ dir: tempDir, keyFile });
+    expect(await new TokenStore(again).load()).toEqual(tokens);
+  });
+
+  it("falls back to plaintext without a passphrase or key file", async () => {
+    const backend = await createTokenBackend({ dir: tempDir });
+    expect(backend.description).toContain("plaintext");
+  });
+});
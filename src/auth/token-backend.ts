@@ -0,0 +1,297 @@
+import { readFile, writeFile, mkdir, rename, rm } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  randomUUID,
+  scryptSync,
+} from "node:crypto";
+
+/**
+ * Storage backend for the serialized token file.
+ *
+ * TokenStore handles profiles and validation; a backend only reads and
+ * writes the raw JSON document, so alternative storage (encrypted files,
+ * an OS keyring) can be plugged in without touching TokenStore.
+ */
+export interface TokenBackend {
+  /** Human-readable description of where tokens are stored. */
+  readonly description: string;
+
+  /**
+   * Reads the stored document.
+   *
+   * @returns The raw JSON text, or null if nothing is stored yet
+   * @throws {Error} If data exists but cannot be read (e.g. wrong passphrase)
+   */
+  read(): Promise<string | null>;
+
+  /**
+   * Replaces the stored document.
+   *
+   * @param data - The raw JSON text to store
+   */
+  write(data: string): Promise<void>;
+
+  /** Deletes the stored document, if any. */
+  remove(): Promise<void>;
+}
+
+/** Reads a file, returning null if it does not exist. */
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * Atomically replaces a file, with restricted permissions.
+ *
+ * Creates the parent directory if it does not exist (mode 0o700). The data
+ * is written to a new temporary file with mode 0o600 (owner read/write
+ * only) and renamed over the target, so readers never see a partly written
+ * file and the result has mode 0o600 even if the target already existed.
+ *
+ * @param filePath - The file to replace
+ * @param data     - The new contents
+ */
+export async function writePrivateFile(filePath: string, data: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, data, { mode: 0o600, flag: "wx" });
+    await rename(tempPath, filePath);
+  } catch (err) {
+    await rm(tempPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Stores tokens as plaintext JSON protected only by file permissions.
+ *
+ * @example
+ * ```typescript
+ * const backend = new PlaintextFileBackend("/home/me/.mf-cloud/tokens.json");
+ * ```
+ */
+export class PlaintextFileBackend implements TokenBackend {
+  readonly description: string;
+
+  constructor(private readonly filePath: string) {
+    this.description = `plaintext file ${filePath}`;
+  }
+
+  async read(): Promise<string | null> {
+    return readIfExists(this.filePath);
+  }
+
+  async write(data: string): Promise<void> {
+    await writePrivateFile(this.filePath, data);
+  }
+
+  async remove(): Promise<void> {
+    await rm(this.filePath, { force: true });
+  }
+}
+
+/** On-disk envelope of an encrypted token file. */
+interface EncryptedEnvelope {
+  version: 1;
+  algorithm: "aes-256-gcm";
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** Derives a 256-bit key from the secret and salt with scrypt. */
+function deriveKey(secret: string | Buffer, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, 32);
+}
+
+/**
+ * Encrypts a document with AES-256-GCM under a fresh random IV.
+ *
+ * @param plaintext - The text to encrypt
+ * @param key       - The 256-bit key derived from the secret and `salt`
+ * @param salt      - The scrypt salt the key was derived with (stored alongside)
+ * @returns The serialized envelope
+ */
+export function encryptDocument(
+  plaintext: string,
+  key: Buffer,
+  salt: Buffer
+): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  const envelope: EncryptedEnvelope = {
+    version: 1,
+    algorithm: "aes-256-gcm",
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Decrypts a document produced by `encryptDocument`.
+ *
+ * @param serialized - The serialized envelope
+ * @param keyFor     - Returns the key for the envelope's salt
+ * @returns The decrypted text
+ * @throws {Error} If the envelope is malformed or the key is wrong
+ */
+export function decryptDocument(
+  serialized: string,
+  keyFor: (salt: Buffer) => Buffer
+): string {
+  let envelope: EncryptedEnvelope;
+  try {
+    envelope = JSON.parse(serialized) as EncryptedEnvelope;
+  } catch {
+    throw new Error("Encrypted token file is corrupted (invalid JSON).");
+  }
+  if (envelope.version !== 1 || envelope.algorithm !== "aes-256-gcm") {
+    throw new Error("Unsupported encrypted token file format.");
+  }
+  try {
+    const key = keyFor(Buffer.from(envelope.salt, "base64"));
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(envelope.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new Error(
+      "Could not decrypt the token file. Check MF_TOKEN_PASSPHRASE or MF_TOKEN_KEY_FILE."
+    );
+  }
+}
+
+/**
+ * Stores tokens in an AES-256-GCM encrypted file.
+ *
+ * The key is derived with scrypt from a passphrase or key-file contents
+ * and cached per salt, so the (deliberately slow) derivation runs once per
+ * process rather than on every token read. Every write uses a fresh IV.
+ *
+ * When `migrateFrom` is given and the encrypted file does not exist yet,
+ * the first read imports the legacy document, writes it encrypted, and
+ * deletes the legacy copy.
+ *
+ * @example
+ * ```typescript
+ * const backend = new EncryptedFileBackend(
+ *   "/home/me/.mf-cloud/tokens.enc.json",
+ *   process.env.MF_TOKEN_PASSPHRASE!,
+ *   new PlaintextFileBackend("/home/me/.mf-cloud/tokens.json")
+ * );
+ * ```
+ */
+export class EncryptedFileBackend implements TokenBackend {
+  readonly description: string;
+  private derived: { salt: Buffer; key: Buffer } | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly secret: string | Buffer,
+    private readonly migrateFrom?: TokenBackend
+  ) {
+    this.description = `encrypted file ${filePath}`;
+  }
+
+  /** Returns the key for the given salt, deriving it only when the salt changes. */
+  private keyFor(salt: Buffer): Buffer {
+    if (!this.derived || !this.derived.salt.equals(salt)) {
+      this.derived = { salt, key: deriveKey(this.secret, salt) };
+    }
+    return this.derived.key;
+  }
+
+  async read(): Promise<string | null> {
+    const serialized = await readIfExists(this.filePath);
+    if (serialized !== null) {
+      return decryptDocument(serialized, (salt) => this.keyFor(salt));
+    }
+    if (!this.migrateFrom) return null;
+
+    const legacy = await this.migrateFrom.read();
+    if (legacy === null) return null;
+    await this.write(legacy);
+    await this.migrateFrom.remove();
+    console.error(
+      `Migrated tokens from ${this.migrateFrom.description} to ${this.description}`
+    );
+    return legacy;
+  }
+
+  async write(data: string): Promise<void> {
+    const salt = this.derived?.salt ?? randomBytes(16);
+    await writePrivateFile(
+      this.filePath,
+      encryptDocument(data, this.keyFor(salt), salt)
+    );
+  }
+
+  async remove(): Promise<void> {
+    await rm(this.filePath, { force: true });
+  }
+}
+
+/**
+ * Token storage settings, usually taken from environment variables.
+ *
+ * @property dir        - Directory holding the token files (e.g. ~/.mf-cloud)
+ * @property passphrase - MF_TOKEN_PASSPHRASE; enables encryption
+ * @property keyFile    - MF_TOKEN_KEY_FILE; enables encryption with the file's contents as secret
+ */
+export interface TokenBackendConfig {
+  dir: string;
+  passphrase?: string;
+  keyFile?: string;
+}
+
+/**
+ * Chooses the token backend for the given configuration.
+ *
+ * With a passphrase or key file, tokens are stored encrypted in
+ * `tokens.enc.json` (migrating an existing `tokens.json`); otherwise the
+ * plaintext `tokens.json` is used.
+ *
+ * @param config - Storage settings
+ * @returns The backend to pass to TokenStore
+ * @throws {Error} If the key file cannot be read or is empty
+ */
+export async function createTokenBackend(
+  config: TokenBackendConfig
+): Promise<TokenBackend> {
+  const plaintext = new PlaintextFileBackend(join(config.dir, "tokens.json"));
+  let secret: string | Buffer | undefined = config.passphrase || undefined;
+  if (!secret && config.keyFile) {
+    secret = await readFile(config.keyFile);
+    if (secret.length === 0) {
+      throw new Error(`Token key file ${config.keyFile} is empty.`);
+    }
+  }
+  if (!secret) return plaintext;
+  return new EncryptedFileBackend(
+    join(config.dir, "tokens.enc.json"),
+    secret,
+    plaintext
+  );
+}
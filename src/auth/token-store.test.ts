@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { TokenStore, type TokenData } from "./token-store.js";
-import { mkdtempSync, rmSync } from "node:fs";
+import { PlaintextFileBackend } from "./token-backend.js";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
@@ -63,4 +64,83 @@ describe("TokenStore", () => {
     };
     expect(store.isExpired(almostExpired)).toBe(true);
   });
+
+  describe("profiles", () => {
+    const tokensA: TokenData = {
+      access_token: "a-access",
+      refresh_token: "a-refresh",
+      expires_at: 1_000,
+      scope: "office_setting:write",
+    };
+    const tokensB: TokenData = { ...tokensA, access_token: "b-access" };
+
+    it("keeps tokens separate per profile", async () => {
+      await store.save(tokensA);
+      store.useProfile("client-b");
+      expect(await store.load()).toBeNull();
+      await store.save(tokensB);
+
+      expect(await store.load()).toEqual(tokensB);
+      store.useProfile("default");
+      expect(await store.load()).toEqual(tokensA);
+    });
+
+    it("reads a legacy single-token file as the default profile", async () => {
+      const filePath = join(tempDir, "tokens.json");
+      writeFileSync(filePath, JSON.stringify(tokensA));
+
+      expect(await store.load()).toEqual(tokensA);
+
+      const other = new TokenStore(filePath, "client-b");
+      await other.save(tokensB);
+      const onDisk = JSON.parse(readFileSync(filePath, "utf-8"));
+      expect(onDisk.profiles.default.tokens).toEqual(tokensA);
+      expect(onDisk.profiles["client-b"].tokens).toEqual(tokensB);
+    });
+
+    it("lists profiles with expiry and cached account info", async () => {
+      await store.save(tokensA);
+      await store.saveAccount({
+        offices: [{ id: "1", name: "Acme" }],
+        updated_at: 5,
+      });
+      store.useProfile("new-client");
+
+      expect(await store.listProfiles()).toEqual([
+        {
+          name: "default",
+          active: false,
+          expiresAt: 1_000,
+          account: { offices: [{ id: "1", name: "Acme" }], updated_at: 5 },
+        },
+        { name: "new-client", active: true, expiresAt: null, account: null },
+      ]);
+    });
+
+    it("keeps concurrent saves from stores sharing a backend", async () => {
+      const backend = new PlaintextFileBackend(join(tempDir, "tokens.json"));
+      const stores = ["a", "b", "c", "d"].map((name) => new TokenStore(backend, name));
+
+      await Promise.all(stores.map((s) => s.save(tokensA)));
+
+      const names = (await stores[0].listProfiles()).map((p) => p.name);
+      expect(names).toEqual(["a", "b", "c", "d"]);
+      expect(readdirSync(tempDir)).toEqual(["tokens.json"]);
+    });
+
+    it("updates a profile's tokens from their current value", async () => {
+      await store.save(tokensA);
+
+      expect(await store.update("default", async () => undefined)).toEqual(tokensA);
+      expect(
+        await store.update("default", async (current) => ({ ...current!, access_token: "new" }))
+      ).toEqual({ ...tokensA, access_token: "new" });
+      expect(await store.update("default", async () => null)).toBeNull();
+      expect(await store.load()).toBeNull();
+    });
+
+    it("rejects invalid profile names", () => {
+      expect(() => store.useProfile("../etc")).toThrow("Invalid profile name");
+    });
+  });
 });
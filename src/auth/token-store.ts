@@ -1,5 +1,4 @@
-import { readFile, writeFile, mkdir, chmod } from "node:fs/promises";
-import { dirname } from "node:path";
+import { PlaintextFileBackend, type TokenBackend } from "./token-backend.js";
 
 /**
  * Represents the OAuth2 token data persisted to disk.
@@ -8,12 +7,15 @@ import { dirname } from "node:path";
  * @property refresh_token - The refresh token used to obtain new access tokens
  * @property expires_at    - Unix timestamp (ms) when the access token expires
  * @property scope         - The OAuth2 scope granted to this token
+ * @property refresh_token_issued_at - Unix timestamp (ms) when the refresh token
+ *                                     was issued (absent for tokens saved by older versions)
  */
 export interface TokenData {
   access_token: string;
   refresh_token: string;
   expires_at: number;
   scope: string;
+  refresh_token_issued_at?: number;
 }
 
 /** Runtime validation for deserialized token data. */
@@ -28,18 +30,83 @@ function isValidTokenData(v: unknown): v is TokenData {
   );
 }
 
+/**
+ * The Money Forward account a profile belongs to, cached for display.
+ *
+ * @property offices    - Expense offices accessible with the profile's tokens
+ * @property updated_at - Unix timestamp (ms) when this information was fetched
+ */
+export interface ProfileAccount {
+  offices: { id: string; name?: string }[];
+  updated_at: number;
+}
+
+/**
+ * A named profile as persisted in the token file.
+ *
+ * @property tokens  - The profile's OAuth2 tokens, if logged in
+ * @property account - Cached account/office information, if known
+ */
+export interface ProfileEntry {
+  tokens?: TokenData;
+  account?: ProfileAccount;
+}
+
+/**
+ * Summary of a profile returned by `TokenStore.listProfiles`.
+ *
+ * @property name      - The profile name
+ * @property active    - Whether this is the store's active profile
+ * @property expiresAt - Token expiry (ms), or null if the profile has no tokens
+ * @property account   - Cached account/office information, if known
+ */
+export interface ProfileSummary {
+  name: string;
+  active: boolean;
+  expiresAt: number | null;
+  account: ProfileAccount | null;
+}
+
+/** On-disk layout of the token file. */
+interface TokenFile {
+  profiles: Record<string, ProfileEntry>;
+}
+
+/** Profile used when none is configured. */
+export const DEFAULT_PROFILE = "default";
+
+/** Allowed characters for profile names. */
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
 /** Buffer time before actual expiry to consider a token as expired (60 seconds). */
 const EXPIRY_BUFFER_MS = 60_000;
 
+/**
+ * The tail of each backend's queue of read-modify-write cycles. Keyed by
+ * backend so that every store sharing one (e.g. one store per HTTP session)
+ * waits for the others' writes instead of overwriting them.
+ */
+const writeQueues = new WeakMap<TokenBackend, Promise<void>>();
+
 /**
  * Handles persistence and expiry checking of OAuth2 tokens.
  *
- * Tokens are stored as JSON on disk with restricted file permissions (0o600)
- * inside a directory created with restricted permissions (0o700).
+ * Tokens are stored per named profile (e.g. one per client company) in a
+ * single JSON document. Where that document lives is decided by the
+ * TokenBackend: a file path creates a plaintext file with restricted
+ * permissions (0o600), while an `EncryptedFileBackend` keeps it AES-GCM
+ * encrypted. `load` and `save` operate on the active profile unless given
+ * another. A legacy single-token document is read as the `default` profile
+ * and converted on the next save.
+ *
+ * Writes are serialized per backend within the process, and the file
+ * backends replace the document atomically, so concurrent saves from stores
+ * sharing a backend never lose each other's changes.
  *
  * @example
  * ```typescript
- * const store = new TokenStore("/path/to/tokens.json");
+ * const store = new TokenStore("/path/to/tokens.json", "client-a");
+ * // or: new TokenStore(new EncryptedFileBackend(path, passphrase), "client-a")
  * const tokens = await store.load();
  * if (!tokens || store.isExpired(tokens)) {
  *   // refresh or re-authenticate
@@ -47,42 +114,212 @@ const EXPIRY_BUFFER_MS = 60_000;
  * ```
  */
 export class TokenStore {
-  constructor(private readonly filePath: string) {}
+  private activeProfile: string;
+  private readonly backend: TokenBackend;
+
+  constructor(
+    backend: TokenBackend | string,
+    profile: string = DEFAULT_PROFILE
+  ) {
+    this.backend =
+      typeof backend === "string" ? new PlaintextFileBackend(backend) : backend;
+    this.activeProfile = TokenStore.validateProfileName(profile);
+  }
+
+  /** Human-readable description of where tokens are stored. */
+  get storage(): string {
+    return this.backend.description;
+  }
 
   /**
-   * Loads token data from the configured file path.
+   * Validates a profile name.
    *
-   * @returns The persisted token data, or null if the file does not exist
-   *          or cannot be parsed.
+   * @param name - The profile name to check
+   * @returns The name, unchanged
+   * @throws {Error} If the name contains characters other than letters, digits, `_`, `.` or `-`
    */
-  async load(): Promise<TokenData | null> {
+  static validateProfileName(name: string): string {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid profile name "${name}": use 1-64 letters, digits, '_', '.' or '-'.`
+      );
+    }
+    return name;
+  }
+
+  /** The name of the active profile. */
+  get profile(): string {
+    return this.activeProfile;
+  }
+
+  /**
+   * Switches the active profile. The profile does not need to exist yet;
+   * it is created on the next `save`.
+   *
+   * @param name - The profile to activate
+   * @throws {Error} If the profile name is invalid
+   */
+  useProfile(name: string): void {
+    this.activeProfile = TokenStore.validateProfileName(name);
+  }
+
+  /**
+   * Reads and normalizes the token document, accepting the legacy
+   * single-token layout. Backend errors (e.g. a wrong passphrase) propagate
+   * so that an unreadable store is never silently overwritten.
+   */
+  private async readTokenFile(): Promise<TokenFile> {
+    const raw = await this.backend.read();
+    if (raw === null) return { profiles: {} };
+    let parsed: unknown;
     try {
-      const data = await readFile(this.filePath, "utf-8");
-      const parsed: unknown = JSON.parse(data);
-      if (!isValidTokenData(parsed)) {
-        return null;
-      }
-      return parsed;
+      parsed = JSON.parse(raw);
     } catch {
-      return null;
+      return { profiles: {} };
+    }
+    if (isValidTokenData(parsed)) {
+      return { profiles: { [DEFAULT_PROFILE]: { tokens: parsed } } };
+    }
+    const profiles =
+      typeof parsed === "object" && parsed !== null
+        ? (parsed as { profiles?: unknown }).profiles
+        : undefined;
+    if (typeof profiles !== "object" || profiles === null) {
+      return { profiles: {} };
     }
+    return { profiles: profiles as Record<string, ProfileEntry> };
+  }
+
+  /** Writes the token document through the backend. */
+  private async writeTokenFile(file: TokenFile): Promise<void> {
+    await this.backend.write(JSON.stringify(file, null, 2));
   }
 
   /**
-   * Saves token data to disk with restricted file permissions.
+   * Runs a read-modify-write cycle once every earlier cycle on the same
+   * backend has settled.
+   */
+  private withWriteLock<T>(cycle: () => Promise<T>): Promise<T> {
+    const previous = writeQueues.get(this.backend) ?? Promise.resolve();
+    const result = previous.then(cycle);
+    writeQueues.set(
+      this.backend,
+      result.then(
+        () => undefined,
+        () => undefined
+      )
+    );
+    return result;
+  }
+
+  /**
+   * Loads a profile's token data.
    *
-   * Creates the parent directory if it does not exist (mode 0o700).
-   * The token file itself is written with mode 0o600 (owner read/write only).
+   * @param profile - The profile to read (default: the active profile)
+   * @returns The persisted token data, or null if the file or profile does
+   *          not exist or cannot be parsed.
+   * @throws {Error} If the backend cannot read existing data (e.g. wrong passphrase)
+   */
+  async load(profile: string = this.activeProfile): Promise<TokenData | null> {
+    const file = await this.readTokenFile();
+    const tokens = file.profiles[profile]?.tokens;
+    return isValidTokenData(tokens) ? tokens : null;
+  }
+
+  /**
+   * Saves a profile's token data, leaving other profiles untouched.
+   *
+   * Callers that obtained the tokens asynchronously (a refresh or login)
+   * pass the profile they started with, since the active profile may have
+   * been switched in the meantime.
+   *
+   * @param tokens  - The token data to persist
+   * @param profile - The profile to write (default: the active profile)
+   */
+  async save(tokens: TokenData, profile: string = this.activeProfile): Promise<void> {
+    await this.withWriteLock(async () => {
+      const file = await this.readTokenFile();
+      file.profiles[profile] = {
+        ...file.profiles[profile],
+        tokens,
+      };
+      await this.writeTokenFile(file);
+    });
+  }
+
+  /**
+   * Replaces a profile's tokens based on their current value.
+   *
+   * No other write to the backend runs until `change` settles, so a refresh
+   * can first check whether another session already refreshed the tokens
+   * (or logged the profile out) before spending the refresh token.
+   * `change` must not itself write to a store on the same backend.
+   *
+   * @param profile - The profile to update
+   * @param change  - Receives the current tokens (null if none); returns the
+   *                  tokens to store, null to delete the profile's entry, or
+   *                  undefined to leave it unchanged
+   * @returns The profile's tokens afterwards, or null if it has none
+   */
+  async update(
+    profile: string,
+    change: (current: TokenData | null) => Promise<TokenData | null | undefined>
+  ): Promise<TokenData | null> {
+    return this.withWriteLock(async () => {
+      const file = await this.readTokenFile();
+      const stored = file.profiles[profile]?.tokens;
+      const current = isValidTokenData(stored) ? stored : null;
+      const next = await change(current);
+      if (next === undefined) return current;
+      if (next === null) {
+        if (file.profiles[profile]) {
+          delete file.profiles[profile];
+          await this.writeTokenFile(file);
+        }
+        return null;
+      }
+      file.profiles[profile] = { ...file.profiles[profile], tokens: next };
+      await this.writeTokenFile(file);
+      return next;
+    });
+  }
+
+  /**
+   * Caches the Money Forward account information for the active profile.
+   *
+   * @param account - The account/office information to store
+   */
+  async saveAccount(account: ProfileAccount): Promise<void> {
+    const profile = this.activeProfile;
+    await this.withWriteLock(async () => {
+      const file = await this.readTokenFile();
+      file.profiles[profile] = {
+        ...file.profiles[profile],
+        account,
+      };
+      await this.writeTokenFile(file);
+    });
+  }
+
+  /**
+   * Lists all stored profiles, plus the active one if it has not been saved yet.
    *
-   * @param tokens - The token data to persist
+   * @returns Profile summaries sorted by name
    */
-  async save(tokens: TokenData): Promise<void> {
-    await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
-    await writeFile(this.filePath, JSON.stringify(tokens, null, 2), {
-      mode: 0o600,
+  async listProfiles(): Promise<ProfileSummary[]> {
+    const file = await this.readTokenFile();
+    const names = new Set([...Object.keys(file.profiles), this.activeProfile]);
+    return [...names].sort().map((name) => {
+      const entry = file.profiles[name];
+      return {
+        name,
+        active: name === this.activeProfile,
+        expiresAt: isValidTokenData(entry?.tokens)
+          ? entry.tokens.expires_at
+          : null,
+        account: entry?.account ?? null,
+      };
     });
-    // Enforce permissions even if the file already existed (writeFile mode only applies to new files)
-    await chmod(this.filePath, 0o600);
   }
 
   /**
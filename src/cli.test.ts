@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from "vitest";
+import { flagValue, parseCommandLine, runCli, type CliIO } from "./cli.js";
+import type { ServerConfig } from "./server.js";
+import type { TokenBackend } from "./auth/token-backend.js";
+import type { TokenData } from "./auth/token-store.js";
+
+const tokens: TokenData = {
+  access_token: "access",
+  refresh_token: "refresh",
+  expires_at: Date.parse("2030-01-01T00:00:00Z"),
+  scope: "mfc/invoice/data.read",
+};
+
+/** An in-memory token backend. */
+function memoryBackend(initial: string | null = null): TokenBackend & { data: string | null } {
+  return {
+    description: "memory",
+    data: initial,
+    async read() {
+      return this.data;
+    },
+    async write(data: string) {
+      this.data = data;
+    },
+    async remove() {
+      this.data = null;
+    },
+  };
+}
+
+function setup(overrides: Partial<ServerConfig> = {}) {
+  const backend = memoryBackend();
+  const oauthClient = {
+    startAuthorization: vi.fn().mockReturnValue({
+      url: "https://auth.example/authorize?state=s1",
+      state: "s1",
+      codeVerifier: "v1",
+    }),
+    parseAuthorizationResponse: vi.fn().mockReturnValue("the-code"),
+    exchangeCode: vi.fn().mockResolvedValue(tokens),
+    revokeToken: vi.fn().mockResolvedValue(undefined),
+  } as any;
+  const config: ServerConfig = {
+    tokenBackend: backend,
+    oauthClient,
+    configDir: "/tmp/mf-cloud-cli-test",
+    auditLogPath: "off",
+    ...overrides,
+  };
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = {
+    out: (text) => out.push(text),
+    err: (text) => err.push(text),
+    prompt: vi.fn().mockResolvedValue("http://localhost:3456/callback?code=the-code&state=s1"),
+  };
+  return { backend, oauthClient, config, io, out, err };
+}
+
+describe("flagValue", () => {
+  it("reads space- and equals-separated values", () => {
+    expect(flagValue(["call", "x", "--json", "{}"], "--json")).toBe("{}");
+    expect(flagValue(["--port=8080"], "--port")).toBe("8080");
+    expect(flagValue(["status"], "--profile")).toBeUndefined();
+  });
+});
+
+describe("parseCommandLine", () => {
+  it("finds the command wherever the options are", () => {
+    expect(parseCommandLine(["status"])).toEqual({ command: "status", operands: [] });
+    expect(parseCommandLine(["--profile", "a", "status"])).toEqual({ command: "status", operands: [] });
+    expect(parseCommandLine(["--read-only", "call", "x", "--json={}"])).toEqual({
+      command: "call",
+      operands: ["x"],
+    });
+  });
+
+  it("returns no command for server options alone", () => {
+    expect(parseCommandLine([])).toEqual({ command: undefined, operands: [] });
+    expect(parseCommandLine(["--http", "--port", "8080"])).toEqual({ command: undefined, operands: [] });
+  });
+
+  it("rejects unknown options and commands", () => {
+    expect(() => parseCommandLine(["--verbose", "status"])).toThrow("Unknown option: --verbose");
+    expect(() => parseCommandLine(["stauts"])).toThrow("Unknown command: stauts");
+    expect(() => parseCommandLine(["status", "extra"])).toThrow("Unexpected argument: extra");
+    expect(() => parseCommandLine(["status", "--profile"])).toThrow("--profile needs a value");
+  });
+});
+
+describe("runCli", () => {
+  it("lists tools, honoring read-only mode", async () => {
+    const { config, io, out } = setup({ readOnly: true });
+
+    expect(await runCli(["list-tools"], config, io)).toBe(0);
+
+    const names = out.map((line) => line.split("\t")[0]);
+    expect(names).toContain("invoice_list_billings");
+    expect(names).not.toContain("invoice_delete_billing");
+  });
+
+  it("calls a tool with --json arguments", async () => {
+    const { config, io, out } = setup();
+
+    const code = await runCli(
+      ["call", "mf_profile_switch", "--json", '{"profile":"client-b"}'],
+      config,
+      io
+    );
+
+    expect(code).toBe(0);
+    expect(out.join("\n")).toContain("client-b");
+  });
+
+  it("fails on invalid arguments and unknown tools", async () => {
+    const { config, io, err } = setup();
+
+    expect(await runCli(["call", "mf_profile_switch", "--json", "{}"], config, io)).toBe(1);
+    expect(err.join("\n")).toContain("Invalid arguments for mf_profile_switch");
+    expect(await runCli(["call", "nope"], config, io)).toBe(1);
+    expect(await runCli(["call", "nope", "--json", "{oops"], config, io)).toBe(2);
+  });
+
+  it("logs in headlessly with the pasted redirect URL", async () => {
+    const { backend, oauthClient, config, io, out, err } = setup();
+
+    expect(await runCli(["login", "--headless"], config, io)).toBe(0);
+
+    expect(err).toContain("https://auth.example/authorize?state=s1");
+    expect(oauthClient.exchangeCode).toHaveBeenCalledWith("the-code", "v1");
+    expect(JSON.parse(backend.data!).profiles.default.tokens).toEqual(tokens);
+    expect(out[0]).toContain("Logged in (profile: default)");
+  });
+
+  it("logs out the selected profile through mf_auth_logout", async () => {
+    const { backend, oauthClient, config, io, out } = setup({ profile: "client-a" });
+    backend.data = JSON.stringify({ profiles: { "client-a": { tokens }, default: { tokens } } });
+
+    expect(await runCli(["logout"], config, io)).toBe(0);
+
+    expect(oauthClient.revokeToken).toHaveBeenCalledWith("refresh", "refresh_token");
+    expect(out[0]).toContain("Logged out (profile: client-a). Stored tokens were deleted.");
+    expect(out[0]).toContain("Revoked at Money Forward: refresh token, access token.");
+    expect(Object.keys(JSON.parse(backend.data!).profiles)).toEqual(["default"]);
+  });
+
+  it("reports status through mf_auth_status", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+    const { config, io, out } = setup();
+
+    try {
+      expect(await runCli(["status"], config, io)).toBe(0);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    expect(out[0]).toContain("Not authenticated (profile: default)");
+    expect(out[0]).toContain("Connectivity: Expense API reachable (HTTP 404");
+  });
+
+  it("runs the command after leading options", async () => {
+    const { config, io, out } = setup();
+
+    expect(await runCli(["--read-only", "list-tools"], { ...config, readOnly: true }, io)).toBe(0);
+    expect(out.map((line) => line.split("\t")[0])).toContain("mf_auth_status");
+  });
+
+  it("fails with usage on an unknown option", async () => {
+    const { config, io, err } = setup();
+
+    expect(await runCli(["--verbose", "status"], config, io)).toBe(2);
+    expect(err[0]).toContain("Unknown option: --verbose");
+    expect(err[0]).toContain("Usage: mf-cloud-mcp-server");
+  });
+
+  it("prints usage for help", async () => {
+    const { config, io, out } = setup();
+
+    expect(await runCli(["help"], config, io)).toBe(0);
+    expect(out[0]).toContain("Usage: mf-cloud-mcp-server");
+  });
+});
@@ -0,0 +1,235 @@
+import { createInterface } from "node:readline/promises";
+import { createServices, registerAllTools, type ServerConfig } from "./server.js";
+import { ToolCollector } from "./tools/collector.js";
+import type { ToolResult } from "./tools/errors.js";
+
+/** Subcommands handled by `runCli`; without one, the MCP server starts. */
+export const CLI_COMMANDS = [
+  "login",
+  "logout",
+  "status",
+  "profiles",
+  "call",
+  "list-tools",
+  "help",
+] as const;
+
+/** A CLI subcommand. */
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+/** Subcommands that never call the API, and so run without OAuth credentials. */
+export const OFFLINE_COMMANDS: readonly CliCommand[] = ["help", "list-tools"];
+
+/** Options followed by a value (`--port 8080` or `--port=8080`). */
+const VALUE_OPTIONS = ["--profile", "--host", "--port", "--json"];
+
+/** Options without a value. */
+const FLAG_OPTIONS = ["--http", "--read-only", "--headless"];
+
+export const USAGE = `Usage: mf-cloud-mcp-server [command] [options]
+
+Without a command, starts the MCP server (stdio, or HTTP with --http).
+
+Commands:
+  login [--headless]          Log in to Money Forward (prints a URL with --headless)
+  logout                      Revoke and delete the stored tokens of the profile
+  status                      Show authentication status
+  profiles                    List token profiles
+  call <tool> [--json '{}']   Call a tool with JSON arguments and print the result
+  list-tools                  List the available tools
+  help                        Show this help
+
+Options:
+  --profile <name>            Token profile to use (default: MF_PROFILE or "default")
+  --read-only                 Hide and block mutating tools
+  --headless                  Never open a browser for login (same as MF_AUTH_HEADLESS=true)
+  --http                      Serve MCP over HTTP instead of stdio (no command)
+  --host <address>            Bind address in HTTP mode (default: 127.0.0.1)
+  --port <port>               Port in HTTP mode (default: 3000)`;
+
+/**
+ * Where the CLI writes output and reads answers.
+ *
+ * @property out    - Command results (stdout)
+ * @property err    - Messages and errors (stderr)
+ * @property prompt - Asks the user a question and returns the answer
+ */
+export interface CliIO {
+  out(text: string): void;
+  err(text: string): void;
+  prompt(question: string): Promise<string>;
+}
+
+const consoleIO: CliIO = {
+  out: (text) => console.log(text),
+  err: (text) => console.error(text),
+  prompt: async (question) => {
+    const rl = createInterface({ input: process.stdin, output: process.stderr });
+    try {
+      return await rl.question(question);
+    } finally {
+      rl.close();
+    }
+  },
+};
+
+/**
+ * Returns the value of `--name value` or `--name=value`, if given.
+ *
+ * @param args - The command-line arguments
+ * @param name - The flag, including the leading dashes
+ */
+export function flagValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index >= 0) return args[index + 1];
+  return args.find((a) => a.startsWith(`${name}=`))?.slice(name.length + 1);
+}
+
+/**
+ * The parsed command line.
+ *
+ * @property command  - The subcommand, or undefined to start the MCP server
+ * @property operands - Arguments after the subcommand that are not options
+ *                      (the tool name of `call`)
+ */
+export interface CommandLine {
+  command?: CliCommand;
+  operands: string[];
+}
+
+/**
+ * Finds the subcommand and its operands, wherever the options are placed
+ * (`--profile a status` and `status --profile a` are the same).
+ *
+ * @param args - The command-line arguments
+ * @returns The subcommand (if any) and its operands
+ * @throws {Error} On an unknown option or command, a missing option value,
+ *   or an operand the command does not take
+ */
+export function parseCommandLine(args: string[]): CommandLine {
+  let command: CliCommand | undefined;
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("-")) {
+      const name = arg.split("=")[0];
+      if (VALUE_OPTIONS.includes(name)) {
+        if (arg.includes("=")) continue;
+        if (i + 1 >= args.length) throw new Error(`${name} needs a value.`);
+        i++;
+      } else if (!FLAG_OPTIONS.includes(name)) {
+        throw new Error(`Unknown option: ${arg}`);
+      }
+    } else if (!command) {
+      if (!(CLI_COMMANDS as readonly string[]).includes(arg)) {
+        throw new Error(`Unknown command: ${arg}`);
+      }
+      command = arg as CliCommand;
+    } else if (command === "call" && operands.length === 0) {
+      operands.push(arg);
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  return { command, operands };
+}
+
+/** Prints a tool result and returns the exit code. */
+function printResult(io: CliIO, result: ToolResult): number {
+  const text = result.content
+    .map((c) => (c.type === "text" ? c.text : `[${c.resource.mimeType ?? "resource"}: ${c.resource.uri}]`))
+    .join("\n");
+  if (result.isError) {
+    io.err(text);
+    return 1;
+  }
+  io.out(text);
+  return 0;
+}
+
+/**
+ * Runs a CLI subcommand with the same services and tool registrations as
+ * the MCP server.
+ *
+ * @param args   - The arguments after the executable, with the command
+ *                 anywhere among the options
+ * @param config - The server configuration
+ * @param io     - Output and prompt functions (default: the console)
+ * @returns The process exit code (2 for usage errors)
+ */
+export async function runCli(
+  args: string[],
+  config: ServerConfig,
+  io: CliIO = consoleIO
+): Promise<number> {
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(args);
+  } catch (error) {
+    io.err(`Error: ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 2;
+  }
+  const { command, operands } = commandLine;
+  if (!command || command === "help") {
+    (command === "help" ? io.out : io.err)(USAGE);
+    return command === "help" ? 0 : 2;
+  }
+
+  const services = createServices(config);
+  const tools = new ToolCollector();
+  registerAllTools(tools.asServer(), services);
+  const { authManager } = services;
+
+  try {
+    switch (command) {
+      case "login": {
+        let tokens;
+        if (args.includes("--headless") || authManager.headless) {
+          io.err("Open this URL in a browser on any machine and approve access:");
+          io.err(authManager.startHeadlessAuth());
+          const answer = await io.prompt("Paste the redirect URL (or the code): ");
+          tokens = await authManager.completeHeadlessAuth(answer);
+        } else {
+          tokens = await authManager.doInteractiveAuth();
+        }
+        io.out(
+          `Logged in (profile: ${authManager.profile}). Token expires at: ${new Date(tokens.expires_at).toISOString()}.`
+        );
+        return 0;
+      }
+      case "logout":
+        return printResult(io, await tools.call("mf_auth_logout"));
+      case "status":
+        return printResult(io, await tools.call("mf_auth_status"));
+      case "profiles":
+        return printResult(io, await tools.call("mf_profile_list"));
+      case "call": {
+        const name = operands[0];
+        if (!name) {
+          io.err("Usage: mf-cloud-mcp-server call <tool> [--json '{...}']");
+          return 2;
+        }
+        const json = flagValue(args, "--json");
+        let input: unknown = {};
+        if (json !== undefined) {
+          try {
+            input = JSON.parse(json);
+          } catch {
+            io.err("--json must be a valid JSON object.");
+            return 2;
+          }
+        }
+        return printResult(io, await tools.call(name, input));
+      }
+      case "list-tools":
+        for (const tool of tools.list()) {
+          io.out(`${tool.name}\t${tool.description ?? ""}`);
+        }
+        return 0;
+    }
+  } catch (error) {
+    io.err(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+  return 2;
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  AuditLog,
+  currentTool,
+  resourceIdOf,
+  runInToolContext,
+} from "./audit-log.js";
+
+const INVOICE = "https://invoice.moneyforward.com/api/v3";
+
+describe("resourceIdOf", () => {
+  it("prefers the response id", () => {
+    expect(resourceIdOf("POST", `${INVOICE}/billings`, { id: "new-1" })).toBe("new-1");
+  });
+
+  it("falls back to the URL for updates and deletes", () => {
+    expect(resourceIdOf("DELETE", `${INVOICE}/billings/42`)).toBe("42");
+    expect(resourceIdOf("PUT", `${INVOICE}/partners/7`, {})).toBe("7");
+  });
+
+  it("skips action segments", () => {
+    expect(
+      resourceIdOf(
+        "POST",
+        "https://expense.moneyforward.com/api/external/v1/offices/1/me/approving_ex_reports/9/approve"
+      )
+    ).toBe("9");
+  });
+
+  it("skips the payment status segment", () => {
+    expect(resourceIdOf("PUT", `${INVOICE}/billings/42/payment_status`, {})).toBe("42");
+  });
+
+  it("skips the posting status segment", () => {
+    expect(resourceIdOf("PUT", `${INVOICE}/billings/42/posting_status`, {})).toBe("42");
+  });
+
+  it("skips the email segment", () => {
+    expect(resourceIdOf("POST", `${INVOICE}/billings/42/email`, {})).toBe("42");
+  });
+
+  it("returns null for a create without a response id", () => {
+    expect(resourceIdOf("POST", `${INVOICE}/billings`)).toBeNull();
+  });
+});
+
+describe("runInToolContext", () => {
+  it("exposes the tool name across awaits", async () => {
+    const seen = await runInToolContext("invoice_update_billing", async () => {
+      await Promise.resolve();
+      return currentTool();
+    });
+    expect(seen).toBe("invoice_update_billing");
+    expect(currentTool()).toBeNull();
+  });
+});
+
+describe("AuditLog", () => {
+  let tempDir: string;
+  let log: AuditLog;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "mf-audit-test-"));
+    log = new AuditLog(join(tempDir, "logs", "audit.jsonl"), () => "client-a");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("appends one JSON line per request with owner-only permissions", async () => {
+    await runInToolContext("invoice_delete_billing", () =>
+      log.record({ method: "DELETE", url: `${INVOICE}/billings/42`, status: 200 })
+    );
+    await log.record({
+      method: "POST",
+      url: `${INVOICE}/partners`,
+      body: { partner: { name: "ACME" } },
+      status: 422,
+      error: "MF API error 422: Unprocessable Entity",
+    });
+
+    const lines = readFileSync(log.filePath, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      profile: "client-a",
+      tool: "invoice_delete_billing",
+      method: "DELETE",
+      status: 200,
+      resource_id: "42",
+    });
+    expect(JSON.parse(lines[1])).toMatchObject({
+      tool: null,
+      body: { partner: { name: "ACME" } },
+      error: "MF API error 422: Unprocessable Entity",
+    });
+    expect(statSync(log.filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("queries by tool, resource and date, newest first", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-01T10:00:00Z"));
+    await runInToolContext("invoice_update_billing", () =>
+      log.record({ method: "PUT", url: `${INVOICE}/billings/1`, status: 200 })
+    );
+    vi.setSystemTime(new Date("2026-10-02T10:00:00Z"));
+    await runInToolContext("invoice_update_billing", () =>
+      log.record({ method: "PUT", url: `${INVOICE}/billings/2`, status: 200 })
+    );
+    vi.setSystemTime(new Date("2026-10-03T10:00:00Z"));
+    await runInToolContext("invoice_add_billing_item", () =>
+      log.record({
+        method: "POST",
+        url: `${INVOICE}/billings/1/items`,
+        status: 200,
+        response: { id: "item-9" },
+      })
+    );
+
+    const updates = await log.query({ tool: "invoice_update_billing" });
+    expect(updates.map((e) => e.resource_id)).toEqual(["2", "1"]);
+
+    const billing1 = await log.query({ resource_id: "1" });
+    expect(billing1.map((e) => e.tool)).toEqual([
+      "invoice_add_billing_item",
+      "invoice_update_billing",
+    ]);
+
+    const oct2 = await log.query({ from: "2026-10-02", to: "2026-10-02" });
+    expect(oct2.map((e) => e.resource_id)).toEqual(["2"]);
+
+    expect(await log.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("returns no entries before anything is logged", async () => {
+    expect(await log.query()).toEqual([]);
+  });
+
+  it("rejects invalid dates", async () => {
+    await expect(log.query({ from: "yesterday" })).rejects.toThrow("from/to");
+  });
+});
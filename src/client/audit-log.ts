@@ -0,0 +1,223 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, chmod, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * One audit log record, written as a single JSON line.
+ *
+ * @property timestamp   - When the request finished (ISO 8601, UTC)
+ * @property profile     - The active token profile
+ * @property tool        - The MCP tool that made the request, or null outside a tool call
+ * @property method      - POST, PUT or DELETE
+ * @property url         - The full request URL
+ * @property body        - The request body, if any
+ * @property status      - The HTTP response status, or null if no response was received
+ * @property resource_id - The affected resource's ID (from the response or the URL), if known
+ * @property error       - The error message for failed requests
+ */
+export interface AuditEntry {
+  timestamp: string;
+  profile: string;
+  tool: string | null;
+  method: string;
+  url: string;
+  body?: unknown;
+  status: number | null;
+  resource_id: string | null;
+  error?: string;
+}
+
+/**
+ * Filters for `AuditLog.query`.
+ *
+ * @property from        - Earliest timestamp (ISO date or date-time, inclusive)
+ * @property to          - Latest timestamp; a bare date includes that whole day (UTC)
+ * @property tool        - Exact tool name
+ * @property resource_id - Exact resource ID, also matched against the URL
+ * @property limit       - Maximum entries to return, newest first
+ */
+export interface AuditQuery {
+  from?: string;
+  to?: string;
+  tool?: string;
+  resource_id?: string;
+  limit?: number;
+}
+
+/** The request a mutating API call made, as recorded by MfApiClient. */
+export interface AuditRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+  status: number | null;
+  response?: unknown;
+  error?: string;
+}
+
+const toolContext = new AsyncLocalStorage<string>();
+
+/**
+ * Runs `fn` with `tool` recorded as the current tool, so API calls made
+ * anywhere below it are attributed to that tool in the audit log.
+ *
+ * @param tool - The MCP tool name
+ * @param fn   - The tool handler invocation
+ * @returns Whatever `fn` returns
+ */
+export function runInToolContext<T>(tool: string, fn: () => T): T {
+  return toolContext.run(tool, fn);
+}
+
+/** Returns the tool whose handler is currently running, or null. */
+export function currentTool(): string | null {
+  return toolContext.getStore() ?? null;
+}
+
+/** Path segments that name an action rather than a resource. */
+const ACTION_SEGMENTS = new Set([
+  "approve",
+  "disapprove",
+  "convert_to_billing",
+  "payment_status",
+  "posting_status",
+  "email",
+]);
+
+/**
+ * Determines the ID of the resource a mutating request affected.
+ *
+ * Prefers the `id` of the response (e.g. a newly created record); otherwise
+ * uses the last URL path segment that is not an action like `approve`.
+ *
+ * @param method   - The HTTP method
+ * @param url      - The request URL
+ * @param response - The parsed response body, if any
+ * @returns The resource ID, or null for a POST to a collection without a response ID
+ */
+export function resourceIdOf(
+  method: string,
+  url: string,
+  response?: unknown
+): string | null {
+  if (typeof response === "object" && response !== null) {
+    const id = (response as Record<string, unknown>).id;
+    if (typeof id === "string" || typeof id === "number") return String(id);
+  }
+  const segments = new URL(url).pathname.split("/").filter(Boolean);
+  const last = segments.pop();
+  if (last !== undefined && ACTION_SEGMENTS.has(last)) {
+    // For `/reports/{id}/approve` the segment before the action is the ID
+    return segments.pop() ?? null;
+  }
+  return method === "POST" ? null : (last ?? null);
+}
+
+/** Returns the end of a `to` filter: a bare date covers the whole day. */
+function upperBound(to: string): number {
+  const time = Date.parse(to);
+  return /^\d{4}-\d{2}-\d{2}$/.test(to) ? time + 86_400_000 - 1 : time;
+}
+
+/**
+ * Append-only JSONL log of every mutating Money Forward API call.
+ *
+ * Each line is one `AuditEntry`. The file is created with owner-only
+ * permissions, since request bodies may contain personal data. Write
+ * failures are reported on stderr but never fail the API call.
+ *
+ * @example
+ * ```typescript
+ * const audit = new AuditLog("/home/me/.mf-cloud/audit.jsonl", () => authManager.profile);
+ * const client = new MfApiClient(getToken, { auditLog: audit });
+ * const entries = await audit.query({ tool: "invoice_delete_billing" });
+ * ```
+ */
+export class AuditLog {
+  constructor(
+    readonly filePath: string,
+    private readonly profile: () => string
+  ) {}
+
+  /**
+   * Records a finished mutating request.
+   *
+   * @param request - The request and its outcome
+   */
+  async record(request: AuditRequest): Promise<void> {
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      profile: this.profile(),
+      tool: currentTool(),
+      method: request.method,
+      url: request.url,
+      ...(request.body !== undefined ? { body: request.body } : {}),
+      status: request.status,
+      resource_id: resourceIdOf(request.method, request.url, request.response),
+      ...(request.error ? { error: request.error } : {}),
+    };
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+      await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+      await chmod(this.filePath, 0o600);
+    } catch (error) {
+      console.error(
+        `Could not write audit log ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Reads all entries, skipping lines that are not valid JSON.
+   *
+   * @returns The entries in the order they were written
+   */
+  async entries(): Promise<AuditEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A partially written line (e.g. after a crash) is ignored
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Searches the log.
+   *
+   * @param query - Filters; all given filters must match
+   * @returns Matching entries, newest first
+   * @throws {Error} If `from` or `to` is not a valid date
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const from = query.from ? Date.parse(query.from) : undefined;
+    const to = query.to ? upperBound(query.to) : undefined;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      throw new Error("from/to must be dates (YYYY-MM-DD) or ISO date-times.");
+    }
+    const matches = (await this.entries()).filter((e) => {
+      const time = Date.parse(e.timestamp);
+      if (from !== undefined && time < from) return false;
+      if (to !== undefined && time > to) return false;
+      if (query.tool && e.tool !== query.tool) return false;
+      if (
+        query.resource_id &&
+        e.resource_id !== query.resource_id &&
+        !new URL(e.url).pathname.split("/").includes(query.resource_id)
+      ) {
+        return false;
+      }
+      return true;
+    });
+    return matches.reverse().slice(0, query.limit ?? matches.length);
+  }
+}
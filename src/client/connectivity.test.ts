@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { checkConnectivity } from "./connectivity.js";
+
+const URL = "https://invoice.moneyforward.com/api/v3";
+
+describe("checkConnectivity", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("treats any HTTP response as reachable", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 401 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await checkConnectivity(URL);
+
+    expect(fetchMock).toHaveBeenCalledWith(URL, expect.objectContaining({ method: "HEAD" }));
+    expect(result).toMatchObject({ url: URL, reachable: true, status: 401 });
+    expect(result.latency_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports network errors without throwing", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+
+    expect(await checkConnectivity(URL)).toMatchObject({
+      reachable: false,
+      status: null,
+      error: "fetch failed",
+    });
+  });
+
+  it("reports timeouts", async () => {
+    const timeout = new DOMException("The operation timed out.", "TimeoutError");
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(timeout));
+
+    const result = await checkConnectivity(URL, 100);
+
+    expect(result.error).toBe("no response within 100 ms");
+  });
+});
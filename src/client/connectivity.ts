@@ -0,0 +1,57 @@
+/** How long a connectivity check waits for a response. */
+export const CONNECTIVITY_TIMEOUT_MS = 5_000;
+
+/**
+ * The outcome of a connectivity check.
+ *
+ * @property url        - The URL that was checked
+ * @property reachable  - Whether the server answered at all (any HTTP status)
+ * @property status     - The HTTP status, or null if there was no response
+ * @property latency_ms - Time until the response or failure
+ * @property error      - Why the server could not be reached
+ */
+export interface ConnectivityResult {
+  url: string;
+  reachable: boolean;
+  status: number | null;
+  latency_ms: number;
+  error?: string;
+}
+
+/**
+ * Checks that an API base URL can be reached, without authenticating.
+ *
+ * Sends an unauthenticated `HEAD` request. Any HTTP response (including
+ * 401 or 404) counts as reachable, since it proves DNS, TLS and routing
+ * work; only network errors and timeouts count as unreachable.
+ *
+ * @param url       - The base URL to check
+ * @param timeoutMs - How long to wait before giving up
+ * @returns The check result; never throws
+ */
+export async function checkConnectivity(
+  url: string,
+  timeoutMs: number = CONNECTIVITY_TIMEOUT_MS
+): Promise<ConnectivityResult> {
+  const started = Date.now();
+  try {
+    const res = await fetch(url, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return { url, reachable: true, status: res.status, latency_ms: Date.now() - started };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return {
+      url,
+      reachable: false,
+      status: null,
+      latency_ms: Date.now() - started,
+      error: timedOut
+        ? `no response within ${timeoutMs} ms`
+        : error instanceof Error
+          ? error.message
+          : String(error),
+    };
+  }
+}
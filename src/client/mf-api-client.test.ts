@@ -19,7 +19,7 @@ describe("MfApiClient", () => {
   it("adds authorization header to GET requests", async () => {
     const mockFetch = vi.fn().mockResolvedValue({
       ok: true,
-      json: () => Promise.resolve({ data: "test" }),
+      text: () => Promise.resolve(JSON.stringify({ data: "test" })),
     });
     vi.stubGlobal("fetch", mockFetch);
 
@@ -40,7 +40,7 @@ describe("MfApiClient", () => {
   it("adds authorization header and body to POST requests", async () => {
     const mockFetch = vi.fn().mockResolvedValue({
       ok: true,
-      json: () => Promise.resolve({ id: "123" }),
+      text: () => Promise.resolve(JSON.stringify({ id: "123" })),
     });
     vi.stubGlobal("fetch", mockFetch);
 
@@ -64,6 +64,84 @@ describe("MfApiClient", () => {
     vi.unstubAllGlobals();
   });
 
+  it("returns raw bytes and the content type from getBinary", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      new Response(new Uint8Array([0x25, 0x50, 0x44, 0x46]), {
+        headers: { "Content-Type": "application/pdf" },
+      })
+    );
+    vi.stubGlobal("fetch", mockFetch);
+
+    const result = await client.getBinary("https://invoice.moneyforward.com/api/v3/billings/42.pdf");
+
+    expect(result.contentType).toBe("application/pdf");
+    expect(result.data.toString("latin1")).toBe("%PDF");
+    expect(mockFetch.mock.calls[0][1].headers.Accept).toBe("*/*");
+
+    vi.unstubAllGlobals();
+  });
+
+  it("streams response bodies from getStream", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("receipt-bytes", {
+          headers: { "Content-Type": "image/jpeg", "Content-Length": "13" },
+        })
+      )
+    );
+
+    const result = await client.getStream("https://example.com/receipt");
+
+    expect(result).toMatchObject({ contentType: "image/jpeg", contentLength: 13 });
+    expect(await new Response(result.body).text()).toBe("receipt-bytes");
+
+    vi.unstubAllGlobals();
+  });
+
+  it("returns undefined for 204 No Content and empty bodies", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 204 }))
+        .mockResolvedValueOnce(new Response("", { status: 200 }))
+    );
+
+    await expect(client.delete("https://example.com/partners/p1")).resolves.toBeUndefined();
+    await expect(client.delete("https://example.com/partners/p2")).resolves.toBeUndefined();
+
+    vi.unstubAllGlobals();
+  });
+
+  it("sends multipart uploads without a JSON content type and audits file metadata", async () => {
+    const auditLog = { record: vi.fn().mockResolvedValue(undefined) };
+    const uploadClient = new MfApiClient(getToken, { auditLog: auditLog as any });
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ id: "r1" }), { status: 201 }));
+    vi.stubGlobal("fetch", mockFetch);
+    const form = new FormData();
+    form.append("memo", "Taxi");
+    form.append("receipt", new Blob([new Uint8Array(4)], { type: "image/png" }), "r.png");
+
+    const result = await uploadClient.upload("POST", "https://example.com/receipts", form);
+
+    expect(result).toEqual({ id: "r1" });
+    const init = mockFetch.mock.calls[0][1];
+    expect(init.body).toBe(form);
+    expect(init.headers["Content-Type"]).toBeUndefined();
+    expect(init.headers.Authorization).toBe("Bearer test-token");
+    expect(auditLog.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "POST",
+        body: { memo: "Taxi", receipt: { filename: "r.png", type: "image/png", size: 4 } },
+      })
+    );
+
+    vi.unstubAllGlobals();
+  });
+
   it("throws MfApiError on non-ok responses", async () => {
     const mockFetch = vi.fn().mockResolvedValue({
       ok: false,
@@ -79,4 +157,274 @@ describe("MfApiClient", () => {
 
     vi.unstubAllGlobals();
   });
+
+  it("rejects a write the token's scopes do not allow without calling the API", async () => {
+    vi.mocked(getToken).mockResolvedValue({
+      access_token: "test-token",
+      refresh_token: "test-refresh",
+      expires_at: Date.now() + 3600_000,
+      scope: "transaction:read mfc/invoice/data.read",
+    });
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+
+    await expect(
+      client.post(
+        "https://expense.moneyforward.com/api/external/v1/offices/1/ex_transactions",
+        { amount: 1000 }
+      )
+    ).rejects.toThrow("transaction:write");
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    vi.unstubAllGlobals();
+  });
+
+  it("blocks mutating requests in read-only mode", async () => {
+    const readOnlyClient = new MfApiClient(getToken, { readOnly: true });
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify({ data: [] })),
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await expect(
+      readOnlyClient.delete("https://invoice.moneyforward.com/api/v3/billings/1")
+    ).rejects.toThrow("read-only mode");
+    await expect(
+      readOnlyClient.get("https://invoice.moneyforward.com/api/v3/billings")
+    ).resolves.toEqual({ data: [] });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("records mutating requests in the audit log, but not reads", async () => {
+    const auditLog = { record: vi.fn().mockResolvedValue(undefined) };
+    const auditedClient = new MfApiClient(getToken, { auditLog: auditLog as any });
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve(JSON.stringify({ id: "p1" })),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve(JSON.stringify({ data: [] })),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: "Not Found",
+        text: () => Promise.resolve(""),
+      });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await auditedClient.put("https://example.com/partners/p1", { partner: { name: "A" } });
+    await auditedClient.get("https://example.com/partners");
+    await expect(auditedClient.delete("https://example.com/partners/p2")).rejects.toThrow();
+
+    expect(auditLog.record).toHaveBeenCalledTimes(2);
+    expect(auditLog.record).toHaveBeenNthCalledWith(1, {
+      method: "PUT",
+      url: "https://example.com/partners/p1",
+      body: { partner: { name: "A" } },
+      status: 200,
+      response: { id: "p1" },
+    });
+    expect(auditLog.record).toHaveBeenNthCalledWith(2, {
+      method: "DELETE",
+      url: "https://example.com/partners/p2",
+      body: undefined,
+      status: 404,
+      error: "MF API error 404: Not Found",
+    });
+
+    vi.unstubAllGlobals();
+  });
+
+  it("force-refreshes the token and replays once on 401", async () => {
+    vi.mocked(getToken)
+      .mockResolvedValueOnce({
+        access_token: "revoked-token",
+        refresh_token: "test-refresh",
+        expires_at: Date.now() + 3600_000,
+        scope: "test",
+      })
+      .mockResolvedValueOnce({
+        access_token: "fresh-token",
+        refresh_token: "fresh-refresh",
+        expires_at: Date.now() + 3600_000,
+        scope: "test",
+      });
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: () => Promise.resolve(""),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({ id: "123" })),
+      });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await expect(
+      client.post("https://example.com/create", { amount: 1 })
+    ).resolves.toEqual({ id: "123" });
+
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe(
+      "Bearer fresh-token"
+    );
+
+    vi.unstubAllGlobals();
+  });
+
+  it("surfaces a second consecutive 401 as MfApiError", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      text: () => Promise.resolve(""),
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await expect(client.get("https://example.com/list")).rejects.toThrow(
+      "MF API error 401"
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("asks for tokens without re-authentication through withoutReauth", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        text: () => Promise.resolve(""),
+      })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve("{}") });
+    vi.stubGlobal("fetch", mockFetch);
+
+    await client.withoutReauth().get("https://example.com/list");
+
+    expect(getToken).toHaveBeenNthCalledWith(1, { noReauth: true });
+    expect(getToken).toHaveBeenNthCalledWith(2, { forceRefresh: true, noReauth: true });
+
+    vi.unstubAllGlobals();
+  });
+
+  describe("retries", () => {
+    const ok = (data: unknown) => ({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify(data)),
+    });
+    const failure = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: new Headers(headers),
+      text: () => Promise.resolve(""),
+    });
+
+    beforeEach(() => {
+      client = new MfApiClient(getToken, {
+        retry: { maxAttempts: 3, baseDelayMs: 0 },
+      });
+    });
+
+    it("retries GET requests on 5xx and returns the eventual success", async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(502))
+        .mockResolvedValueOnce(ok({ data: "done" }));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await expect(client.get("https://example.com/list")).resolves.toEqual({
+        data: "done",
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      vi.unstubAllGlobals();
+    });
+
+    it("gives up after maxAttempts and throws the last error", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(failure(500));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await expect(client.get("https://example.com/list")).rejects.toThrow(
+        "MF API error 500"
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      vi.unstubAllGlobals();
+    });
+
+    it("waits for the Retry-After delay on 429", async () => {
+      vi.useFakeTimers();
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(failure(429, { "Retry-After": "2" }))
+        .mockResolvedValueOnce(ok({ data: "done" }));
+      vi.stubGlobal("fetch", mockFetch);
+
+      const pending = client.get("https://example.com/list");
+      await vi.advanceTimersByTimeAsync(1_999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toEqual({ data: "done" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    it("does not retry POST requests by default", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(failure(503));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await expect(
+        client.post("https://example.com/create", { a: 1 })
+      ).rejects.toThrow("MF API error 503");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      vi.unstubAllGlobals();
+    });
+
+    it("retries POST requests marked idempotent", async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(failure(429))
+        .mockResolvedValueOnce(ok({ id: "1" }));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await expect(
+        client.post("https://example.com/create", { a: 1 }, { idempotent: true })
+      ).resolves.toEqual({ id: "1" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      vi.unstubAllGlobals();
+    });
+
+    it("does not retry non-transient errors", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(failure(422));
+      vi.stubGlobal("fetch", mockFetch);
+
+      await expect(client.put("https://example.com/x", {})).rejects.toThrow(
+        "MF API error 422"
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      vi.unstubAllGlobals();
+    });
+  });
 });
@@ -1,4 +1,15 @@
 import type { TokenData } from "../auth/token-store.js";
+import type { TokenRequestOptions } from "../auth/auth-manager.js";
+import { assertScope } from "../auth/scopes.js";
+import type { AuditLog } from "./audit-log.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENT_METHODS,
+  computeRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  type RetryPolicy,
+} from "./retry.js";
 
 /**
  * Error thrown when a Money Forward Cloud API request returns a non-ok response.
@@ -29,14 +40,96 @@ export class MfApiError extends Error {
 }
 
 /** A function that returns the current OAuth2 tokens. */
-type TokenProvider = () => Promise<TokenData>;
+type TokenProvider = (options?: TokenRequestOptions) => Promise<TokenData>;
+
+/**
+ * Construction options for MfApiClient.
+ *
+ * @property retry    - Overrides for the default retry policy
+ * @property readOnly - Reject every request other than GET/HEAD before it is sent
+ * @property auditLog - Records every POST/PUT/DELETE and its outcome
+ */
+export interface MfApiClientOptions {
+  retry?: Partial<RetryPolicy>;
+  readOnly?: boolean;
+  auditLog?: AuditLog;
+}
+
+/**
+ * Per-request options.
+ *
+ * @property idempotent - Marks a POST as safe to retry. GET, PUT and DELETE
+ *                        are always retried; POST is retried only when set.
+ */
+export interface RequestOptions {
+  idempotent?: boolean;
+}
+
+/**
+ * A binary response body, e.g. a rendered PDF.
+ *
+ * @property data        - The raw response body (a Buffer, i.e. a Uint8Array
+ *                         view of the underlying ArrayBuffer)
+ * @property contentType - The response's Content-Type header, if any
+ */
+export interface BinaryResponse {
+  data: Buffer;
+  contentType: string | null;
+}
+
+/**
+ * A streamed response body, for downloads too large to buffer.
+ *
+ * @property body          - The response body; must be consumed or cancelled
+ * @property contentType   - The response's Content-Type header, if any
+ * @property contentLength - The response's Content-Length, if reported
+ */
+export interface StreamResponse {
+  body: ReadableStream<Uint8Array>;
+  contentType: string | null;
+  contentLength: number | null;
+}
+
+/**
+ * Parses a JSON response body. 204 No Content and empty bodies (as some
+ * DELETE endpoints return) yield undefined instead of a parse error.
+ */
+async function parseJson<T>(res: Response): Promise<T> {
+  if (res.status === 204) return undefined as T;
+  const text = await res.text();
+  return (text.trim() === "" ? undefined : JSON.parse(text)) as T;
+}
+
+/**
+ * Summarizes a multipart body for the audit log: field values are kept,
+ * files are described by name, type and size rather than their contents.
+ */
+function describeForm(form: FormData): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [name, value] of form.entries()) {
+    fields[name] =
+      typeof value === "string"
+        ? value
+        : { filename: value.name, type: value.type, size: value.size };
+  }
+  return fields;
+}
+
+/** Resolves after the given number of milliseconds. */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 /**
  * HTTP client for Money Forward Cloud APIs with automatic OAuth2 authorization.
  *
  * Wraps the global `fetch` function, injecting the Bearer token from the
- * provided token provider into every request. Non-ok responses are thrown
- * as `MfApiError` instances.
+ * provided token provider into every request. Throttled (429) and 5xx
+ * responses are retried with jittered exponential backoff, honoring the
+ * `Retry-After` header. A 401 triggers a forced token refresh and a single
+ * replay of the request. Other non-ok responses are thrown as `MfApiError`
+ * instances. When an audit log is configured, every POST, PUT and DELETE is
+ * recorded once with its final outcome.
  *
  * @example
  * ```typescript
@@ -55,42 +148,171 @@ type TokenProvider = () => Promise<TokenData>;
  * ```
  */
 export class MfApiClient {
-  constructor(private readonly getToken: TokenProvider) {}
+  private readonly retryPolicy: RetryPolicy;
+
+  /** Whether the client refuses all mutating requests. */
+  readonly readOnly: boolean;
+
+  private readonly auditLog?: AuditLog;
+
+  constructor(
+    private readonly getToken: TokenProvider,
+    options: MfApiClientOptions = {}
+  ) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.readOnly = options.readOnly ?? false;
+    this.auditLog = options.auditLog;
+  }
+
+  /**
+   * Returns a client with the same settings whose requests fail instead of
+   * starting a login: when there are no tokens, or a token the API rejects
+   * cannot be refreshed. Used where a browser login would be unexpected,
+   * such as status checks.
+   *
+   * @returns The non-interactive client
+   */
+  withoutReauth(): MfApiClient {
+    return new MfApiClient(
+      (options) => this.getToken({ ...options, noReauth: true }),
+      { retry: this.retryPolicy, readOnly: this.readOnly, auditLog: this.auditLog }
+    );
+  }
+
+  /**
+   * Writes the outcome of a mutating request to the audit log, if any.
+   * Reads are not recorded.
+   */
+  private async audit(
+    method: string,
+    url: string,
+    init: RequestInit,
+    outcome: { status: number | null; response?: unknown; error?: string }
+  ): Promise<void> {
+    if (!this.auditLog || method === "GET" || method === "HEAD") return;
+    let body: unknown;
+    if (init.body instanceof FormData) {
+      body = describeForm(init.body);
+    } else if (typeof init.body === "string") {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = init.body;
+      }
+    }
+    await this.auditLog.record({ method, url, body, ...outcome });
+  }
 
   /**
    * Builds the standard request headers including the OAuth2 Bearer token.
    *
-   * @returns A record containing Authorization and Content-Type headers
+   * Fails fast when the token's granted scopes cannot cover the request,
+   * rather than sending it and getting a 403.
+   *
+   * @param method       - The HTTP method of the request
+   * @param url          - The request URL
+   * @param forceRefresh - Ask the token provider for a freshly refreshed token
+   * @returns A record containing the Authorization header
+   * @throws {MissingScopeError} When the token lacks the scope for the endpoint
    */
-  private async headers(): Promise<Record<string, string>> {
-    const tokens = await this.getToken();
-    return {
-      Authorization: `Bearer ${tokens.access_token}`,
-      "Content-Type": "application/json",
-    };
+  private async headers(
+    method: string,
+    url: string,
+    forceRefresh = false
+  ): Promise<Record<string, string>> {
+    const tokens = await this.getToken(
+      forceRefresh ? { forceRefresh } : undefined
+    );
+    assertScope(tokens.scope, method, url);
+    return { Authorization: `Bearer ${tokens.access_token}` };
   }
 
   /**
    * Sends an HTTP request with authorization headers and handles errors.
    *
-   * @param url  - The full URL to request
-   * @param init - Optional fetch RequestInit overrides (method, body, etc.)
-   * @returns The parsed JSON response body
-   * @throws {MfApiError} When the response status is not ok (2xx)
+   * Idempotent requests (and POSTs marked `idempotent`) are retried on
+   * network errors, 429 and 5xx responses according to the retry policy.
+   * Any request rejected with 401 is replayed once with a force-refreshed
+   * token; this replay does not count as a retry attempt.
+   *
+   * String bodies are sent as JSON. FormData bodies are sent as
+   * multipart/form-data, with the boundary set by `fetch`.
+   *
+   * @param url     - The full URL to request
+   * @param init    - Optional fetch RequestInit overrides (method, body, etc.)
+   * @param options - Per-request options (e.g. marking a POST as retry-safe)
+   * @param parse   - Reads the body of a successful response (default: JSON)
+   * @returns The parsed response body
+   * @throws {MfApiError} When the response status is not ok (2xx) after all attempts
+   * @throws {MissingScopeError} When the token lacks the scope for the endpoint
+   * @throws {Error} When a mutating request is made in read-only mode
    */
-  private async request<T>(url: string, init?: RequestInit): Promise<T> {
-    const h = await this.headers();
-    const res = await fetch(url, {
-      ...init,
-      headers: { ...h, ...init?.headers },
-    });
+  private async request<T>(
+    url: string,
+    init: RequestInit = {},
+    options: RequestOptions = {},
+    parse: (res: Response) => Promise<T> = parseJson
+  ): Promise<T> {
+    const method = init.method ?? "GET";
+    if (this.readOnly && method !== "GET" && method !== "HEAD") {
+      throw new Error(
+        `The server is in read-only mode; ${method} ${url} was blocked.`
+      );
+    }
+    const contentType: Record<string, string> =
+      typeof init.body === "string" ? { "Content-Type": "application/json" } : {};
+    const retryable = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const maxAttempts = retryable ? this.retryPolicy.maxAttempts : 1;
+    let forceRefresh = false;
+    let replayedUnauthorized = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const h = await this.headers(method, url, forceRefresh);
+      forceRefresh = false;
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          ...init,
+          headers: { ...h, ...contentType, ...init.headers },
+        });
+      } catch (err) {
+        if (attempt >= maxAttempts) {
+          await this.audit(method, url, init, {
+            status: null,
+            error: err instanceof Error ? err.message : String(err),
+          });
+          throw err;
+        }
+        await sleep(computeRetryDelay(this.retryPolicy, attempt));
+        continue;
+      }
+
+      if (res.ok) {
+        const data = await parse(res);
+        await this.audit(method, url, init, { status: res.status, response: data });
+        return data;
+      }
 
-    if (!res.ok) {
       const body = await res.text();
-      throw new MfApiError(res.status, res.statusText, body);
+      if (res.status === 401 && !replayedUnauthorized) {
+        // The token was revoked or expired early — refresh and replay once.
+        replayedUnauthorized = true;
+        forceRefresh = true;
+        attempt--;
+        continue;
+      }
+      if (attempt < maxAttempts && isRetryableStatus(res.status)) {
+        const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+        await sleep(computeRetryDelay(this.retryPolicy, attempt, retryAfter));
+        continue;
+      }
+      const error = new MfApiError(res.status, res.statusText, body);
+      await this.audit(method, url, init, {
+        status: res.status,
+        error: error.message,
+      });
+      throw error;
     }
-
-    return res.json() as Promise<T>;
   }
 
   /**
@@ -98,7 +320,7 @@ export class MfApiClient {
    *
    * @param url    - The API endpoint URL
    * @param params - Optional query parameters to append to the URL
-   * @returns The parsed JSON response body
+   * @returns The parsed JSON response body, or undefined for an empty body
    * @throws {MfApiError} When the response status is not ok (2xx)
    *
    * @example
@@ -115,11 +337,101 @@ export class MfApiClient {
     return this.request<T>(fullUrl);
   }
 
+  /**
+   * Sends a GET request and returns the raw response body, for downloads
+   * such as rendered PDFs.
+   *
+   * @param url    - The API endpoint URL
+   * @param params - Optional query parameters to append to the URL
+   * @returns The response body and its content type
+   * @throws {MfApiError} When the response status is not ok (2xx)
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.getBinary(
+   *   "https://invoice.moneyforward.com/api/v3/billings/42.pdf"
+   * );
+   * await writeFile("invoice.pdf", data);
+   * ```
+   */
+  async getBinary(url: string, params?: Record<string, string>): Promise<BinaryResponse> {
+    const fullUrl = params
+      ? `${url}?${new URLSearchParams(params).toString()}`
+      : url;
+    return this.request(fullUrl, { headers: { Accept: "*/*" } }, {}, async (res) => ({
+      data: Buffer.from(await res.arrayBuffer()),
+      contentType: res.headers.get("Content-Type"),
+    }));
+  }
+
+  /**
+   * Sends a GET request and returns the response body as a stream, so large
+   * files can be written to disk without buffering them in memory.
+   *
+   * @param url    - The API endpoint URL
+   * @param params - Optional query parameters to append to the URL
+   * @returns The body stream with its content type and length
+   * @throws {MfApiError} When the response status is not ok (2xx)
+   *
+   * @example
+   * ```typescript
+   * const { body } = await client.getStream(url);
+   * await pipeline(Readable.fromWeb(body), createWriteStream("receipt.jpg"));
+   * ```
+   */
+  async getStream(url: string, params?: Record<string, string>): Promise<StreamResponse> {
+    const fullUrl = params
+      ? `${url}?${new URLSearchParams(params).toString()}`
+      : url;
+    return this.request(fullUrl, { headers: { Accept: "*/*" } }, {}, async (res) => {
+      const length = res.headers.get("Content-Length");
+      return {
+        body: res.body ?? new ReadableStream<Uint8Array>({ start: (c) => c.close() }),
+        contentType: res.headers.get("Content-Type"),
+        contentLength: length === null ? null : Number(length),
+      };
+    });
+  }
+
+  /**
+   * Sends a multipart/form-data request, e.g. to upload a receipt image.
+   *
+   * Like `post`, a POST is retried only when `options.idempotent` is set.
+   * The audit log records field values and file names, types and sizes, but
+   * not file contents.
+   *
+   * @param method  - POST or PUT
+   * @param url     - The API endpoint URL
+   * @param form    - The form fields and files
+   * @param options - Set `idempotent: true` to allow retrying a POST
+   * @returns The parsed JSON response body, or undefined for an empty body
+   * @throws {MfApiError} When the response status is not ok (2xx)
+   *
+   * @example
+   * ```typescript
+   * const form = new FormData();
+   * form.append("receipt", new Blob([bytes], { type: "image/jpeg" }), "receipt.jpg");
+   * await client.upload("POST", `${base}/ex_transactions/42/receipts`, form);
+   * ```
+   */
+  async upload<T>(
+    method: "POST" | "PUT",
+    url: string,
+    form: FormData,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>(url, { method, body: form }, options);
+  }
+
   /**
    * Sends a POST request with an optional JSON body.
    *
-   * @param url  - The API endpoint URL
-   * @param body - Optional request body (will be JSON-serialized)
+   * POSTs are not retried unless `options.idempotent` is set, since
+   * replaying them could create duplicate resources.
+   *
+   * @param url     - The API endpoint URL
+   * @param body    - Optional request body (will be JSON-serialized)
+   * @param options - Set `idempotent: true` to allow retries
    * @returns The parsed JSON response body
    * @throws {MfApiError} When the response status is not ok (2xx)
    *
@@ -131,11 +443,19 @@ export class MfApiClient {
    * );
    * ```
    */
-  async post<T>(url: string, body?: unknown): Promise<T> {
-    return this.request<T>(url, {
-      method: "POST",
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  async post<T>(
+    url: string,
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    return this.request<T>(
+      url,
+      {
+        method: "POST",
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      options
+    );
   }
 
   /**
@@ -165,7 +485,7 @@ export class MfApiClient {
    * Sends a DELETE request to the specified URL.
    *
    * @param url - The API endpoint URL
-   * @returns The parsed JSON response body
+   * @returns The parsed JSON response body, or undefined for 204 No Content
    * @throws {MfApiError} When the response status is not ok (2xx)
    *
    * @example
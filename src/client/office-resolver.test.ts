@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import { OfficeResolver } from "./office-resolver.js";
+
+describe("OfficeResolver", () => {
+  it("prefers an explicit office_id", async () => {
+    const api = { get: vi.fn() };
+    const resolver = new OfficeResolver(api, "default-office");
+
+    await expect(resolver.resolve("explicit")).resolves.toBe("explicit");
+    expect(api.get).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the configured default", async () => {
+    const api = { get: vi.fn() };
+    const resolver = new OfficeResolver(api, "env-office");
+
+    await expect(resolver.resolve()).resolves.toBe("env-office");
+    resolver.setDefault("runtime-office");
+    await expect(resolver.resolve()).resolves.toBe("runtime-office");
+    expect(api.get).not.toHaveBeenCalled();
+  });
+
+  it("auto-selects and remembers the only office", async () => {
+    const api = { get: vi.fn().mockResolvedValue([{ id: 42, name: "Acme" }]) };
+    const resolver = new OfficeResolver(api);
+
+    await expect(resolver.resolve()).resolves.toBe("42");
+    await expect(resolver.resolve()).resolves.toBe("42");
+    expect(api.get).toHaveBeenCalledTimes(1);
+    expect(resolver.getDefault()).toBe("42");
+  });
+
+  it("asks for office_id when the user has several offices", async () => {
+    const api = {
+      get: vi.fn().mockResolvedValue({
+        offices: [
+          { id: "1", name: "Acme" },
+          { id: "2", name: "Beta" },
+        ],
+      }),
+    };
+    const resolver = new OfficeResolver(api);
+
+    await expect(resolver.resolve()).rejects.toThrow(
+      "office_id is required: you belong to 2 offices (1 (Acme), 2 (Beta))"
+    );
+  });
+});
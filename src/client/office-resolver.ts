@@ -0,0 +1,103 @@
+import type { MfApiClient } from "./mf-api-client.js";
+import { extractPage } from "./pagination.js";
+import { EXPENSE_BASE_URL } from "../types/expense.js";
+
+/** Minimal view of an Expense office as returned by `/v1/offices`. */
+export interface OfficeSummary {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Resolves the Expense office to use when a tool call omits `office_id`.
+ *
+ * Resolution order:
+ * 1. An explicit `office_id` passed to the tool
+ * 2. The default set at runtime via `setDefault` (or `MF_OFFICE_ID` at startup)
+ * 3. The user's only office, if they belong to exactly one
+ *
+ * @example
+ * ```typescript
+ * const offices = new OfficeResolver(api, process.env.MF_OFFICE_ID);
+ * const officeId = await offices.resolve(args.office_id);
+ * ```
+ */
+export class OfficeResolver {
+  private defaultOfficeId: string | null;
+
+  constructor(
+    private readonly api: Pick<MfApiClient, "get">,
+    defaultOfficeId?: string
+  ) {
+    this.defaultOfficeId = defaultOfficeId || null;
+  }
+
+  /** Returns the current default office ID, or null if none is set. */
+  getDefault(): string | null {
+    return this.defaultOfficeId;
+  }
+
+  /**
+   * Sets the default office used when `office_id` is omitted.
+   *
+   * @param officeId - The office ID to use by default
+   */
+  setDefault(officeId: string): void {
+    this.defaultOfficeId = officeId;
+  }
+
+  /** Clears the default office, e.g. after switching to another account. */
+  clearDefault(): void {
+    this.defaultOfficeId = null;
+  }
+
+  /**
+   * Lists the offices the authenticated user belongs to.
+   *
+   * @returns The offices with their IDs and names
+   * @throws {MfApiError} When the offices request fails
+   */
+  async listOffices(): Promise<OfficeSummary[]> {
+    const data = await this.api.get(`${EXPENSE_BASE_URL}/v1/offices`);
+    return extractPage(data)
+      .items.filter(
+        (o): o is Record<string, unknown> => typeof o === "object" && o !== null
+      )
+      .map((o) => ({
+        id: String(o.id),
+        name: typeof o.name === "string" ? o.name : undefined,
+      }));
+  }
+
+  /**
+   * Resolves the office ID for a tool call.
+   *
+   * When no explicit or default office is available, the user's offices are
+   * fetched; a single office is selected automatically and remembered as
+   * the default.
+   *
+   * @param officeId - The `office_id` argument passed to the tool, if any
+   * @returns The office ID to use
+   * @throws {Error} When the user belongs to zero or several offices and none was chosen
+   */
+  async resolve(officeId?: string): Promise<string> {
+    if (officeId) return officeId;
+    if (this.defaultOfficeId) return this.defaultOfficeId;
+
+    const offices = await this.listOffices();
+    if (offices.length === 1) {
+      this.defaultOfficeId = offices[0].id;
+      return this.defaultOfficeId;
+    }
+    if (offices.length === 0) {
+      throw new Error("No Expense offices are accessible with this account.");
+    }
+    const choices = offices
+      .map((o) => (o.name ? `${o.id} (${o.name})` : o.id))
+      .join(", ");
+    throw new Error(
+      `office_id is required: you belong to ${offices.length} offices (${choices}). ` +
+        "Pass office_id or call expense_set_default_office."
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest";
+import { extractPage, fetchAllPages } from "./pagination.js";
+
+describe("extractPage", () => {
+  it("reads the Invoice v3 data/pagination shape", () => {
+    const page = extractPage({
+      data: [{ id: "1" }, { id: "2" }],
+      pagination: { current_page: 1, total_pages: 3, total_count: 5, per_page: 2 },
+    });
+    expect(page.key).toBe("data");
+    expect(page.items).toHaveLength(2);
+    expect(page.info).toMatchObject({
+      currentPage: 1,
+      totalPages: 3,
+      totalCount: 5,
+      perPage: 2,
+    });
+  });
+
+  it("reads the Expense resource/meta shape", () => {
+    const page = extractPage({
+      ex_transactions: [{ id: "a" }],
+      meta: { current_page: "2", next_page: null, total_count: "11" },
+    });
+    expect(page.key).toBe("ex_transactions");
+    expect(page.info.currentPage).toBe(2);
+    expect(page.info.nextPage).toBeNull();
+    expect(page.info.totalCount).toBe(11);
+  });
+
+  it("accepts bare arrays", () => {
+    const page = extractPage([{ id: "x" }]);
+    expect(page.key).toBeNull();
+    expect(page.items).toEqual([{ id: "x" }]);
+  });
+});
+
+describe("fetchAllPages", () => {
+  it("follows total_pages and merges items", async () => {
+    const get = vi.fn().mockImplementation((_url: string, params: Record<string, string>) =>
+      Promise.resolve({
+        data: [{ id: `p${params.page}` }],
+        pagination: { current_page: Number(params.page), total_pages: 3, total_count: 3 },
+      })
+    );
+
+    const result = await fetchAllPages({ get } as any, "https://example.com/billings", {
+      per_page: "1",
+    });
+
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(get).toHaveBeenLastCalledWith("https://example.com/billings", {
+      per_page: "1",
+      page: "3",
+    });
+    expect(result).toEqual({
+      key: "data",
+      items: [{ id: "p1" }, { id: "p2" }, { id: "p3" }],
+      totalCount: 3,
+      scannedCount: 3,
+      pagesFetched: 3,
+      truncated: false,
+    });
+  });
+
+  it("stops at an empty page when no metadata is present", async () => {
+    const get = vi
+      .fn()
+      .mockResolvedValueOnce({ ex_reports: [{ id: 1 }, { id: 2 }] })
+      .mockResolvedValueOnce({ ex_reports: [{ id: 3 }] })
+      .mockResolvedValueOnce({ ex_reports: [] });
+
+    const result = await fetchAllPages({ get } as any, "https://example.com/r");
+
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(result.items).toHaveLength(3);
+    expect(result.totalCount).toBe(3);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("stops once maxItems is reached and reports truncation", async () => {
+    const get = vi.fn().mockResolvedValue({
+      data: [{ id: 1 }, { id: 2 }],
+      pagination: { total_pages: 10, total_count: 20 },
+    });
+
+    const result = await fetchAllPages({ get } as any, "https://example.com/x", {}, {
+      maxItems: 3,
+    });
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(result.items).toHaveLength(3);
+    expect(result.totalCount).toBe(20);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("never exceeds maxPages", async () => {
+    const get = vi.fn().mockResolvedValue({ data: [{ id: 1 }] });
+
+    const result = await fetchAllPages({ get } as any, "https://example.com/x", {}, {
+      maxPages: 4,
+    });
+
+    expect(get).toHaveBeenCalledTimes(4);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("filters across pages and counts matches instead of the API total", async () => {
+    const get = vi.fn().mockImplementation((_url: string, params: Record<string, string>) =>
+      Promise.resolve({
+        data: [{ id: Number(params.page) * 2 - 1 }, { id: Number(params.page) * 2 }],
+        pagination: { total_pages: 3, total_count: 6 },
+      })
+    );
+
+    const result = await fetchAllPages({ get } as any, "https://example.com/x", {}, {
+      filter: (item) => (item as { id: number }).id % 2 === 0,
+    });
+
+    expect(result.items).toEqual([{ id: 2 }, { id: 4 }, { id: 6 }]);
+    expect(result.totalCount).toBe(3);
+    expect(result.scannedCount).toBe(6);
+    expect(result.truncated).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+import type { MfApiClient } from "./mf-api-client.js";
+
+/** Hard upper bound on pages fetched in one auto-pagination run. */
+export const MAX_PAGES = 100;
+
+/**
+ * Pagination metadata normalized from Expense and Invoice v3 responses.
+ *
+ * Any field the API did not provide is null (`nextPage` is undefined).
+ */
+export interface PageInfo {
+  currentPage: number | null;
+  totalPages: number | null;
+  totalCount: number | null;
+  perPage: number | null;
+  /** Next page number; null when the API explicitly reports no next page. */
+  nextPage: number | null | undefined;
+}
+
+/**
+ * A single page of a list response split into its items and metadata.
+ *
+ * @property key   - The property that held the items (e.g. "data", "ex_transactions"),
+ *                   or null when the response body was a bare array
+ * @property items - The records on this page
+ * @property info  - Normalized pagination metadata
+ */
+export interface ListPage {
+  key: string | null;
+  items: unknown[];
+  info: PageInfo;
+}
+
+/**
+ * The merged result of walking through several pages.
+ *
+ * @property key          - The property that held the items in each page
+ * @property items        - All fetched records, capped at `maxItems`
+ * @property totalCount   - Total records reported by the API, or the number
+ *                          fetched when the API does not report a total; with
+ *                          a `filter`, the number of matches found
+ * @property scannedCount - Records fetched before filtering
+ * @property pagesFetched - Number of requests made
+ * @property truncated    - True if more records exist than were returned
+ */
+export interface PaginatedResult {
+  key: string | null;
+  items: unknown[];
+  totalCount: number;
+  scannedCount: number;
+  pagesFetched: number;
+  truncated: boolean;
+}
+
+/**
+ * Options for auto-pagination.
+ *
+ * @property maxItems - Stop once this many records have been collected
+ * @property maxPages - Stop after this many requests (default: MAX_PAGES)
+ * @property filter   - Keep only records it accepts; `maxItems` counts matches
+ */
+export interface PaginateOptions {
+  maxItems?: number;
+  maxPages?: number;
+  filter?: (item: unknown) => boolean;
+}
+
+function toNumber(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim() !== "" && !Number.isNaN(Number(v))) {
+    return Number(v);
+  }
+  return null;
+}
+
+function asRecord(v: unknown): Record<string, unknown> | null {
+  return typeof v === "object" && v !== null && !Array.isArray(v)
+    ? (v as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Splits a list response into items and pagination metadata.
+ *
+ * Understands the Invoice v3 shape (`{ data: [...], pagination: {...} }`)
+ * and the Expense shape (`{ <resource>: [...], meta: {...} }`), as well as
+ * bare arrays. Metadata keys recognized: `current_page`, `total_pages`,
+ * `total_count`, `per_page` and `next_page`.
+ *
+ * @param data - The parsed JSON response body
+ * @returns The items, the property that held them, and normalized metadata
+ */
+export function extractPage(data: unknown): ListPage {
+  const empty: PageInfo = {
+    currentPage: null,
+    totalPages: null,
+    totalCount: null,
+    perPage: null,
+    nextPage: undefined,
+  };
+
+  if (Array.isArray(data)) {
+    return { key: null, items: data, info: empty };
+  }
+
+  const obj = asRecord(data);
+  if (!obj) {
+    return { key: null, items: [], info: empty };
+  }
+
+  let key: string | null = null;
+  if (Array.isArray(obj.data)) {
+    key = "data";
+  } else {
+    key = Object.keys(obj).find((k) => Array.isArray(obj[k])) ?? null;
+  }
+
+  const meta =
+    asRecord(obj.pagination) ??
+    asRecord(asRecord(obj.meta)?.pagination) ??
+    asRecord(obj.meta);
+  const info: PageInfo = meta
+    ? {
+        currentPage: toNumber(meta.current_page),
+        totalPages: toNumber(meta.total_pages),
+        totalCount: toNumber(meta.total_count),
+        perPage: toNumber(meta.per_page),
+        nextPage:
+          "next_page" in meta ? toNumber(meta.next_page) : undefined,
+      }
+    : empty;
+
+  return { key, items: key ? (obj[key] as unknown[]) : [], info };
+}
+
+/** Decides whether the given page is the last one. */
+function isLastPage(page: ListPage, pageNumber: number): boolean {
+  const { items, info } = page;
+  if (items.length === 0) return true;
+  if (info.totalPages !== null && pageNumber >= info.totalPages) return true;
+  if (info.nextPage === null) return true;
+  if (info.perPage !== null && items.length < info.perPage) return true;
+  return false;
+}
+
+/**
+ * Fetches consecutive pages of a list endpoint and merges their items.
+ *
+ * Starts at `params.page` (default 1) and follows the API's pagination
+ * metadata until the last page, an empty page, `maxItems` or `maxPages`.
+ * With a `filter`, pages are walked until enough records match, since the
+ * API's total no longer says how many will.
+ *
+ * @param api     - The API client (only `get` is used)
+ * @param url     - The list endpoint URL
+ * @param params  - Query parameters sent with every page request
+ * @param options - Item and page limits
+ * @returns The merged items with total count and truncation flag
+ * @throws {MfApiError} When any page request fails
+ *
+ * @example
+ * ```typescript
+ * const result = await fetchAllPages(api, `${INVOICE_BASE_URL}/billings`, {
+ *   per_page: "100",
+ * }, { maxItems: 500 });
+ * console.log(`${result.items.length} of ${result.totalCount}`);
+ * ```
+ */
+export async function fetchAllPages(
+  api: Pick<MfApiClient, "get">,
+  url: string,
+  params: Record<string, string> = {},
+  options: PaginateOptions = {}
+): Promise<PaginatedResult> {
+  const maxItems = options.maxItems ?? Infinity;
+  const maxPages = options.maxPages ?? MAX_PAGES;
+  const filter = options.filter;
+
+  const items: unknown[] = [];
+  let key: string | null = null;
+  let totalCount: number | null = null;
+  let pageNumber = Number(params.page ?? 1);
+  let pagesFetched = 0;
+  let scannedCount = 0;
+  let exhausted = false;
+
+  while (pagesFetched < maxPages && items.length < maxItems) {
+    const data = await api.get(url, { ...params, page: String(pageNumber) });
+    const page = extractPage(data);
+    pagesFetched++;
+    key ??= page.key;
+    totalCount ??= page.info.totalCount;
+    scannedCount += page.items.length;
+    items.push(...(filter ? page.items.filter(filter) : page.items));
+
+    if (isLastPage(page, pageNumber)) {
+      exhausted = true;
+      break;
+    }
+    pageNumber = page.info.nextPage ?? pageNumber + 1;
+  }
+
+  const merged = items.slice(0, maxItems);
+  // The API's total counts unfiltered records, so it is ignored with a filter
+  const reportedTotal = filter ? null : totalCount;
+  return {
+    key,
+    items: merged,
+    totalCount: reportedTotal ?? items.length,
+    scannedCount,
+    pagesFetched,
+    truncated:
+      reportedTotal !== null
+        ? merged.length < reportedTotal
+        : !exhausted || items.length > maxItems,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  type RetryPolicy,
+} from "./retry.js";
+
+describe("retry helpers", () => {
+  const policy: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 100,
+    maxDelayMs: 1_000,
+  };
+
+  it("treats 429 and 5xx as retryable", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+
+  it("parses Retry-After in seconds and HTTP-date form", () => {
+    const now = Date.parse("2026-10-19T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3_000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 00:00:05 GMT", now)).toBe(5_000);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+
+  it("grows the backoff ceiling exponentially with full jitter", () => {
+    const max = () => 0.999999;
+    expect(computeRetryDelay(policy, 1, null, max)).toBe(99);
+    expect(computeRetryDelay(policy, 2, null, max)).toBe(199);
+    expect(computeRetryDelay(policy, 3, null, max)).toBe(399);
+    expect(computeRetryDelay(policy, 1, null, () => 0)).toBe(0);
+  });
+
+  it("caps backoff and Retry-After at maxDelayMs", () => {
+    expect(computeRetryDelay(policy, 10, null, () => 0.999999)).toBe(999);
+    expect(computeRetryDelay(policy, 1, 60_000)).toBe(1_000);
+    expect(computeRetryDelay(policy, 1, 250)).toBe(250);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Retry policy applied by MfApiClient to throttled (429) and failed (5xx) requests.
+ *
+ * @property maxAttempts - Total number of attempts, including the first one
+ * @property baseDelayMs - Initial backoff delay, doubled on every retry
+ * @property maxDelayMs  - Upper bound for a single backoff or Retry-After wait
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** Default retry policy: up to 4 attempts, 500ms base delay, 30s cap. */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** HTTP methods that are safe to replay without explicit opt-in. */
+export const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+/**
+ * Returns true if the response status indicates a transient failure.
+ *
+ * @param status - The HTTP status code
+ * @returns true for 429 Too Many Requests and any 5xx status
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Parses a `Retry-After` header value into a delay in milliseconds.
+ *
+ * Supports both the delta-seconds form (`"120"`) and the HTTP-date form
+ * (`"Wed, 21 Oct 2026 07:28:00 GMT"`).
+ *
+ * @param value - The raw header value, or null if absent
+ * @param now   - Current time in ms (injectable for tests)
+ * @returns The delay in milliseconds, or null if the header is absent or invalid
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before the next attempt using "full jitter"
+ * exponential backoff, honoring `Retry-After` when the server provides it.
+ *
+ * @param policy     - The retry policy in effect
+ * @param attempt    - The attempt that just failed (1-based)
+ * @param retryAfter - Delay requested by the server in ms, if any
+ * @param random     - Random source in [0, 1) (injectable for tests)
+ * @returns The delay in milliseconds, never exceeding `policy.maxDelayMs`
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter: number | null = null,
+  random: () => number = Math.random
+): number {
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.floor(random() * ceiling);
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isAuthorized, startHttpServer, type HttpServerOptions } from "./http-server.js";
+
+const TOKEN = "s3cret";
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+describe("isAuthorized", () => {
+  it("accepts only the exact bearer token", () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized(`bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized("Bearer wrong", TOKEN)).toBe(false);
+    expect(isAuthorized(TOKEN, TOKEN)).toBe(false);
+    expect(isAuthorized(undefined, TOKEN)).toBe(false);
+  });
+});
+
+describe("startHttpServer", () => {
+  let httpServer: Server | undefined;
+
+  afterEach(async () => {
+    if (!httpServer) return;
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer!.close(resolve));
+    httpServer = undefined;
+  });
+
+  async function start(
+    createSessionServer: () => McpServer,
+    options: Partial<HttpServerOptions> = {}
+  ): Promise<string> {
+    httpServer = await startHttpServer(
+      { host: "127.0.0.1", port: 0, authToken: TOKEN, ...options },
+      createSessionServer
+    );
+    const { port } = httpServer.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/mcp`;
+  }
+
+  function post(url: string, body: unknown, headers: Record<string, string> = {}) {
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("refuses to start without a shared secret", async () => {
+    await expect(
+      startHttpServer({ host: "127.0.0.1", port: 0, authToken: "" }, () => new McpServer({ name: "t", version: "1" }))
+    ).rejects.toThrow("auth token is required");
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    const createSessionServer = vi.fn(() => new McpServer({ name: "t", version: "1" }));
+    const url = await start(createSessionServer);
+
+    const res = await post(url, initialize);
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toBe("Bearer");
+    expect(createSessionServer).not.toHaveBeenCalled();
+  });
+
+  it("creates a separate server for each session", async () => {
+    const createSessionServer = vi.fn(() => new McpServer({ name: "t", version: "1" }));
+    const url = await start(createSessionServer);
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    const first = await post(url, initialize, auth);
+    const second = await post(url, initialize, auth);
+    await first.body?.cancel();
+    await second.body?.cancel();
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    const ids = [first, second].map((r) => r.headers.get("mcp-session-id"));
+    expect(ids[0]).toBeTruthy();
+    expect(ids[0]).not.toBe(ids[1]);
+    expect(createSessionServer).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects unknown sessions and non-initialize requests without a session", async () => {
+    const url = await start(() => new McpServer({ name: "t", version: "1" }));
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    const unknown = await post(
+      url,
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { ...auth, "Mcp-Session-Id": "nope" }
+    );
+    const missing = await post(url, { jsonrpc: "2.0", id: 2, method: "tools/list" }, auth);
+
+    expect(unknown.status).toBe(404);
+    expect(missing.status).toBe(400);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const url = await start(() => new McpServer({ name: "t", version: "1" }), {
+      sessionIdleTimeoutMs: 50,
+    });
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+    const init = await post(url, initialize, auth);
+    await init.body?.cancel();
+    const sessionId = init.headers.get("mcp-session-id")!;
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const later = await post(
+      url,
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { ...auth, "Mcp-Session-Id": sessionId }
+    );
+
+    expect(later.status).toBe(404);
+  });
+
+  it("refuses new sessions beyond the limit", async () => {
+    const url = await start(() => new McpServer({ name: "t", version: "1" }), { maxSessions: 1 });
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    const first = await post(url, initialize, auth);
+    const second = await post(url, initialize, auth);
+    await first.body?.cancel();
+    await second.body?.cancel();
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(503);
+  });
+});
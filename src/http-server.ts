@@ -0,0 +1,219 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/** Path the MCP endpoint is served on. */
+export const MCP_PATH = "/mcp";
+
+/** Largest accepted request body (JSON-RPC messages are small). */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Default for `HttpServerOptions.sessionIdleTimeoutMs` (30 minutes). */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+/** Default for `HttpServerOptions.maxSessions`. */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/** How often idle sessions are looked for, at most. */
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Options for `startHttpServer`.
+ *
+ * @property host                 - Address to bind (e.g. `127.0.0.1`, or `0.0.0.0` for all interfaces)
+ * @property port                 - Port to listen on; 0 picks a free port
+ * @property authToken            - Shared secret clients must send as `Authorization: Bearer <token>`
+ * @property sessionIdleTimeoutMs - Close sessions without a request for this long (default: 30 minutes)
+ * @property maxSessions          - Refuse new sessions while this many are open (default: 100)
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken: string;
+  sessionIdleTimeoutMs?: number;
+  maxSessions?: number;
+}
+
+/**
+ * An open MCP session.
+ *
+ * @property transport  - The session's transport, connected to its server
+ * @property lastActive - Unix timestamp (ms) of the session's latest request
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+}
+
+/**
+ * Checks an `Authorization` header against the shared secret in constant time.
+ *
+ * @param header    - The request's Authorization header
+ * @param authToken - The configured shared secret
+ * @returns true if the header is `Bearer <authToken>`
+ */
+export function isAuthorized(header: string | undefined, authToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+  if (!match) return false;
+  // Hash both sides so the comparison does not leak the secret's length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(authToken));
+}
+
+/** Writes a JSON-RPC error response without a request ID. */
+function sendError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/** Reads and parses a JSON request body. */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * Serves MCP over Streamable HTTP at `/mcp`.
+ *
+ * Every request must carry the shared secret as a bearer token. Each
+ * `initialize` request starts a new session with its own server from
+ * `createSessionServer`, so per-session state (active profile, pending
+ * login, default office, confirmation tokens) is not shared between
+ * sessions. The stored tokens behind the profiles are shared, so a logout
+ * in one session logs the profile out for all of them, and any client with
+ * the secret can switch to every stored profile; the CLI therefore hides
+ * `mf_profile_switch` and `mf_auth_logout` in HTTP mode unless
+ * `MF_HTTP_ALLOW_PROFILE_CHANGES` is set. Later requests are routed by the
+ * `Mcp-Session-Id` header.
+ *
+ * Clients that disappear without closing their session (DELETE) would keep
+ * its server in memory, so sessions without a request for
+ * `sessionIdleTimeoutMs` are closed, and new sessions are refused with 503
+ * while `maxSessions` are open.
+ *
+ * @param options             - Bind address, port and shared secret
+ * @param createSessionServer - Builds a fresh MCP server for a new session
+ * @returns The listening HTTP server
+ * @throws {Error} If the shared secret is empty or the port cannot be bound
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createSessionServer: () => McpServer
+): Promise<Server> {
+  if (!options.authToken) {
+    throw new Error("An auth token is required to serve MCP over HTTP.");
+  }
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessions = new Map<string, Session>();
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.lastActive > cutoff) continue;
+      sessions.delete(id);
+      void session.transport.close();
+    }
+  }, Math.min(idleTimeoutMs, SESSION_SWEEP_INTERVAL_MS));
+  // The sweep alone must not keep the process alive
+  sweep.unref();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.pathname !== MCP_PATH) {
+      res.writeHead(404);
+      res.end("Not Found");
+      return;
+    }
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      sendError(res, 401, -32001, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastActive = Date.now();
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendError(res, 400, -32700, "Parse error");
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+    if (sessions.size >= maxSessions) {
+      sendError(res, 503, -32000, "Too many open sessions; try again later");
+      return;
+    }
+
+    const server = createSessionServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, lastActive: Date.now() });
+      },
+      onsessionclosed: (id) => {
+        sessions.delete(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      console.error(
+        `MCP HTTP request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      if (!res.headersSent) sendError(res, 500, -32603, "Internal server error");
+      else res.end();
+    });
+  });
+  httpServer.on("close", () => {
+    clearInterval(sweep);
+    for (const { transport } of sessions.values()) void transport.close();
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
@@ -1,31 +1,46 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { join } from "node:path";
 import { homedir } from "node:os";
 
-import { TokenStore } from "./auth/token-store.js";
+import { createTokenBackend } from "./auth/token-backend.js";
+import { resolveScopes } from "./auth/scopes.js";
 import { OAuthClient } from "./auth/oauth-client.js";
-import { AuthManager } from "./auth/auth-manager.js";
-import { MfApiClient } from "./client/mf-api-client.js";
-import { registerCommonTools } from "./tools/common.js";
-import { registerExpenseTransactionTools } from "./tools/expense/transactions.js";
-import { registerExpenseReportTools } from "./tools/expense/reports.js";
-import { registerExpenseMasterTools } from "./tools/expense/masters.js";
-import { registerExpenseMemberTools } from "./tools/expense/members.js";
-import { registerExpenseJournalTools } from "./tools/expense/journals.js";
-import { registerInvoiceBillingTools } from "./tools/invoice/billings.js";
-import { registerInvoiceQuoteTools } from "./tools/invoice/quotes.js";
-import { registerInvoicePartnerTools } from "./tools/invoice/partners.js";
-import { registerInvoiceItemTools } from "./tools/invoice/items.js";
+import { createMcpServer, type ServerConfig } from "./server.js";
+import { MCP_PATH, startHttpServer } from "./http-server.js";
+import {
+  OFFLINE_COMMANDS,
+  USAGE,
+  flagValue,
+  parseCommandLine,
+  runCli,
+  type CommandLine,
+} from "./cli.js";
 
-const clientId = process.env.MF_CLIENT_ID;
-const clientSecret = process.env.MF_CLIENT_SECRET;
+const args = process.argv.slice(2);
+
+let commandLine: CommandLine;
+try {
+  commandLine = parseCommandLine(args);
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+  console.error(USAGE);
+  process.exit(2);
+}
+const { command } = commandLine;
+if (command === "help") {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const clientId = process.env.MF_CLIENT_ID ?? "";
+const clientSecret = process.env.MF_CLIENT_SECRET ?? "";
 const redirectUri =
   process.env.MF_REDIRECT_URI ?? "http://localhost:3456/callback";
 
-if (!clientId || !clientSecret) {
+// Commands that never call the API (e.g. list-tools) run without credentials
+if ((!clientId || !clientSecret) && !(command && OFFLINE_COMMANDS.includes(command))) {
   console.error(
     "Error: MF_CLIENT_ID and MF_CLIENT_SECRET environment variables are required."
   );
@@ -35,31 +50,68 @@ if (!clientId || !clientSecret) {
   process.exit(1);
 }
 
-const tokenStore = new TokenStore(
-  join(homedir(), ".mf-cloud", "tokens.json")
-);
-const oauthClient = new OAuthClient({ clientId, clientSecret, redirectUri });
-const authManager = new AuthManager(tokenStore, oauthClient);
-const apiClient = new MfApiClient(() => authManager.getValidToken());
-
-const server = new McpServer({
-  name: "mf-cloud-mcp-server",
-  version: "1.0.0",
+const configDir = join(homedir(), ".mf-cloud");
+const tokenBackend = await createTokenBackend({
+  dir: configDir,
+  passphrase: process.env.MF_TOKEN_PASSPHRASE,
+  keyFile: process.env.MF_TOKEN_KEY_FILE,
 });
+const oauthClient = new OAuthClient({
+  clientId,
+  clientSecret,
+  redirectUri,
+  scopes: resolveScopes(process.env.MF_SCOPES),
+});
+const httpMode = args.includes("--http");
+const config: ServerConfig = {
+  tokenBackend,
+  oauthClient,
+  configDir,
+  downloadDir: process.env.MF_DOWNLOAD_DIR,
+  uploadDir: process.env.MF_UPLOAD_DIR,
+  profile: flagValue(args, "--profile") ?? process.env.MF_PROFILE,
+  officeId: process.env.MF_OFFICE_ID,
+  // A shared HTTP server cannot open a browser on the user's machine
+  headless:
+    httpMode || args.includes("--headless") || process.env.MF_AUTH_HEADLESS === "true",
+  readOnly:
+    args.includes("--read-only") || process.env.MF_READ_ONLY === "true",
+  // HTTP sessions share stored tokens, so one client must not switch into
+  // or log out of profiles for the others unless explicitly allowed
+  lockProfiles: httpMode && process.env.MF_HTTP_ALLOW_PROFILE_CHANGES !== "true",
+  auditLogPath: process.env.MF_AUDIT_LOG,
+  maxAttempts: Number(process.env.MF_RETRY_MAX_ATTEMPTS),
+};
 
-// Register all tools
-registerCommonTools(server, authManager, apiClient);
-registerExpenseTransactionTools(server, apiClient);
-registerExpenseReportTools(server, apiClient);
-registerExpenseMasterTools(server, apiClient);
-registerExpenseMemberTools(server, apiClient);
-registerExpenseJournalTools(server, apiClient);
-registerInvoiceBillingTools(server, apiClient);
-registerInvoiceQuoteTools(server, apiClient);
-registerInvoicePartnerTools(server, apiClient);
-registerInvoiceItemTools(server, apiClient);
-
-const transport = new StdioServerTransport();
-await server.connect(transport);
+if (command) {
+  process.exit(await runCli(args, config));
+} else if (httpMode) {
+  const host = flagValue(args, "--host") ?? process.env.MF_HTTP_HOST ?? "127.0.0.1";
+  const port = Number(flagValue(args, "--port") ?? process.env.MF_HTTP_PORT ?? 3000);
+  const authToken = process.env.MF_HTTP_TOKEN;
+  if (!authToken) {
+    console.error(
+      "Error: MF_HTTP_TOKEN is required in HTTP mode. Clients must send it as 'Authorization: Bearer <token>'."
+    );
+    process.exit(1);
+  }
+  const idleMinutes = Number(process.env.MF_HTTP_SESSION_IDLE_MINUTES);
+  const maxSessions = Number(process.env.MF_HTTP_MAX_SESSIONS);
+  await startHttpServer(
+    {
+      host,
+      port,
+      authToken,
+      sessionIdleTimeoutMs: idleMinutes > 0 ? idleMinutes * 60_000 : undefined,
+      maxSessions: maxSessions > 0 ? maxSessions : undefined,
+    },
+    () => createMcpServer(config)
+  );
+  console.error(`mf-cloud-mcp-server listening on http://${host}:${port}${MCP_PATH}`);
+} else {
+  const server = createMcpServer(config);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
 
-console.error("mf-cloud-mcp-server connected via stdio");
+  console.error("mf-cloud-mcp-server connected via stdio");
+}
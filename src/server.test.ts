@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PROFILE_CHANGING_TOOLS, createMcpServer, type ServerConfig } from "./server.js";
+import { isMutatingTool } from "./tools/read-only.js";
+
+const config: ServerConfig = {
+  tokenBackend: {} as any,
+  oauthClient: {} as any,
+  configDir: "/tmp/mf-cloud-test",
+  auditLogPath: "off",
+};
+
+function registeredToolNames(spy: { mock: { calls: unknown[][] } }): string[] {
+  return spy.mock.calls.map((call) => call[0] as string);
+}
+
+describe("createMcpServer", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("registers every tool group, including undo", () => {
+    const spy = vi.spyOn(McpServer.prototype, "registerTool");
+
+    createMcpServer(config);
+
+    const names = registeredToolNames(spy);
+    expect(names).toContain("mf_auth_status");
+    expect(names).toContain("expense_list_my_transactions");
+    expect(names).toContain("invoice_delete_billing");
+    expect(names).toContain("mf_undo");
+    expect(names).not.toContain("mf_audit_log_query");
+  });
+
+  it("omits mutating tools in read-only mode", () => {
+    const spy = vi.spyOn(McpServer.prototype, "registerTool");
+
+    createMcpServer({ ...config, readOnly: true });
+
+    const names = registeredToolNames(spy);
+    expect(names).toContain("invoice_list_billings");
+    expect(names.filter(isMutatingTool)).toEqual([]);
+  });
+
+  it("omits the profile-changing tools when profiles are locked", () => {
+    const spy = vi.spyOn(McpServer.prototype, "registerTool");
+
+    createMcpServer({ ...config, lockProfiles: true });
+
+    const names = registeredToolNames(spy);
+    expect(names).toContain("mf_profile_list");
+    expect(names).toContain("mf_auth_login");
+    expect(names.filter((name) => PROFILE_CHANGING_TOOLS.includes(name))).toEqual([]);
+  });
+
+  it("returns an independent server on every call", () => {
+    expect(createMcpServer(config)).not.toBe(createMcpServer(config));
+  });
+});
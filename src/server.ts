@@ -0,0 +1,188 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { join } from "node:path";
+
+import { TokenStore } from "./auth/token-store.js";
+import type { TokenBackend } from "./auth/token-backend.js";
+import type { OAuthClient } from "./auth/oauth-client.js";
+import { AuthManager } from "./auth/auth-manager.js";
+import { MfApiClient } from "./client/mf-api-client.js";
+import { OfficeResolver } from "./client/office-resolver.js";
+import { AuditLog } from "./client/audit-log.js";
+import { registerCommonTools } from "./tools/common.js";
+import { registerProfileTools } from "./tools/profiles.js";
+import { withReadOnlyFilter, withToolFilter } from "./tools/read-only.js";
+import { withToolNameRecorder } from "./tools/collector.js";
+import { ConfirmationStore } from "./tools/confirmation.js";
+import { UndoStore, registerUndoTools } from "./tools/undo.js";
+import { registerAuditTools, withToolContext } from "./tools/audit.js";
+import { registerExpenseTransactionTools } from "./tools/expense/transactions.js";
+import { registerExpenseReceiptTools } from "./tools/expense/receipts.js";
+import { registerExpenseReportTools } from "./tools/expense/reports.js";
+import { registerExpenseMasterTools } from "./tools/expense/masters.js";
+import { registerExpenseMemberTools } from "./tools/expense/members.js";
+import { registerExpenseJournalTools } from "./tools/expense/journals.js";
+import { registerInvoiceBillingTools } from "./tools/invoice/billings.js";
+import { registerInvoiceQuoteTools } from "./tools/invoice/quotes.js";
+import { registerInvoicePartnerTools } from "./tools/invoice/partners.js";
+import { registerInvoiceItemTools } from "./tools/invoice/items.js";
+import { registerInvoicePdfTools } from "./tools/invoice/pdfs.js";
+
+/**
+ * Process-wide settings shared by every server instance.
+ *
+ * @property tokenBackend    - Where tokens are persisted
+ * @property oauthClient     - The OAuth client for the registered app
+ * @property configDir       - Directory for local state (undo snapshots, audit log)
+ * @property downloadDir     - Where downloaded PDFs and receipts are saved (default: `<configDir>/downloads`)
+ * @property uploadDir       - The only directory receipts may be uploaded from (default: `<configDir>/uploads`)
+ * @property profile         - Initial token profile (default: `default`)
+ * @property officeId        - Initial default Expense office
+ * @property headless        - Never open a browser for login
+ * @property readOnly        - Hide mutating tools and block writes
+ * @property lockProfiles    - Hide `mf_profile_switch` and `mf_auth_logout` (see `PROFILE_CHANGING_TOOLS`)
+ * @property auditLogPath    - Audit log file, or `off` to disable (default: `<configDir>/audit.jsonl`)
+ * @property maxAttempts     - Retry attempts per API request
+ */
+export interface ServerConfig {
+  tokenBackend: TokenBackend;
+  oauthClient: OAuthClient;
+  configDir: string;
+  downloadDir?: string;
+  uploadDir?: string;
+  profile?: string;
+  officeId?: string;
+  headless?: boolean;
+  readOnly?: boolean;
+  lockProfiles?: boolean;
+  auditLogPath?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * The objects the tools work with.
+ *
+ * @property authManager   - Token lifecycle for the active profile
+ * @property apiClient     - Authenticated Money Forward API client
+ * @property offices       - Resolves `office_id` for Expense tools
+ * @property confirmations - Tokens for destructive operations
+ * @property undo          - Pre-change snapshots for `mf_undo`
+ * @property auditLog      - Audit log of write operations, unless disabled
+ * @property downloadDir   - Where downloaded PDFs and receipts are saved
+ * @property uploadDir     - The only directory receipts may be uploaded from
+ * @property lockProfiles  - Whether the profile-changing tools are hidden
+ */
+export interface ServerServices {
+  authManager: AuthManager;
+  apiClient: MfApiClient;
+  offices: OfficeResolver;
+  confirmations: ConfirmationStore;
+  undo: UndoStore;
+  auditLog?: AuditLog;
+  downloadDir: string;
+  uploadDir: string;
+  lockProfiles: boolean;
+}
+
+/**
+ * Builds the services for one server instance.
+ *
+ * Each call builds its own AuthManager, API client, office resolver and
+ * confirmation store, so the active profile, default office, pending
+ * headless login and confirmation tokens belong to one instance (one HTTP
+ * session) only. Stored tokens are not isolated: every instance reads and
+ * writes the same `config.tokenBackend`, so any instance can switch to any
+ * stored profile, and refreshes and logouts are seen by all of them. Set
+ * `config.lockProfiles` to keep instances on their initial profile and
+ * stop them logging it out for the others.
+ *
+ * @param config - The shared settings
+ * @returns Fresh services
+ */
+export function createServices(config: ServerConfig): ServerServices {
+  const tokenStore = new TokenStore(config.tokenBackend, config.profile);
+  const authManager = new AuthManager(tokenStore, config.oauthClient, {
+    headless: config.headless,
+  });
+  const auditLogPath = config.auditLogPath || join(config.configDir, "audit.jsonl");
+  const auditLog =
+    auditLogPath === "off"
+      ? undefined
+      : new AuditLog(auditLogPath, () => authManager.profile);
+  const apiClient = new MfApiClient((options) => authManager.getValidToken(options), {
+    retry: (config.maxAttempts ?? 0) > 0 ? { maxAttempts: config.maxAttempts } : undefined,
+    readOnly: config.readOnly,
+    auditLog,
+  });
+  return {
+    authManager,
+    apiClient,
+    offices: new OfficeResolver(apiClient, config.officeId),
+    confirmations: new ConfirmationStore(),
+    undo: new UndoStore(join(config.configDir, "undo.json"), () => authManager.profile),
+    auditLog,
+    downloadDir: config.downloadDir || join(config.configDir, "downloads"),
+    uploadDir: config.uploadDir || join(config.configDir, "uploads"),
+    lockProfiles: config.lockProfiles ?? false,
+  };
+}
+
+/**
+ * Tools that act on stored tokens beyond the calling session: switching
+ * into another stored profile, and logging a profile out (which revokes its
+ * tokens for every session). Hidden with `lockProfiles`, e.g. on a shared
+ * HTTP server.
+ */
+export const PROFILE_CHANGING_TOOLS: readonly string[] = ["mf_profile_switch", "mf_auth_logout"];
+
+/**
+ * Registers every tool on a server, or on anything with the same
+ * `registerTool` signature (e.g. the CLI's ToolCollector).
+ *
+ * @param server   - Where to register the tools
+ * @param services - The services the tools use
+ */
+export function registerAllTools(server: McpServer, services: ServerServices): void {
+  const { authManager, apiClient, offices, confirmations, undo, auditLog, downloadDir, uploadDir, lockProfiles } =
+    services;
+  // In read-only mode, mutating tools are not registered at all, nor are
+  // profile-changing tools when profiles are locked; every handler runs in a
+  // tool context so audit log entries name their tool. Names are recorded
+  // beneath the filters so mf_auth_status sees what is actually registered
+  const names: string[] = [];
+  const recorded = withToolNameRecorder(server, names);
+  const unlocked = lockProfiles
+    ? withToolFilter(recorded, (name) => PROFILE_CHANGING_TOOLS.includes(name))
+    : recorded;
+  const tools = withToolContext(apiClient.readOnly ? withReadOnlyFilter(unlocked) : unlocked);
+
+  registerCommonTools(tools, authManager, apiClient, offices, () => names);
+  registerProfileTools(tools, authManager, offices);
+  registerExpenseTransactionTools(tools, apiClient, offices, confirmations, undo);
+  registerExpenseReceiptTools(tools, apiClient, offices, downloadDir, uploadDir);
+  registerExpenseReportTools(tools, apiClient, offices, confirmations);
+  registerExpenseMasterTools(tools, apiClient, offices, confirmations, undo);
+  registerExpenseMemberTools(tools, apiClient, offices, confirmations, undo);
+  registerExpenseJournalTools(tools, apiClient, offices);
+  registerInvoiceBillingTools(tools, apiClient, confirmations, undo);
+  registerInvoiceQuoteTools(tools, apiClient, confirmations, undo);
+  registerInvoicePartnerTools(tools, apiClient, confirmations, undo);
+  registerInvoiceItemTools(tools, apiClient, confirmations, undo);
+  registerInvoicePdfTools(tools, apiClient, downloadDir);
+  registerUndoTools(tools, apiClient, undo);
+  if (auditLog) registerAuditTools(tools, auditLog);
+}
+
+/**
+ * Creates an MCP server with all tools registered and its own services.
+ *
+ * @param config - The shared settings
+ * @returns A server ready to be connected to a transport
+ */
+export function createMcpServer(config: ServerConfig): McpServer {
+  const server = new McpServer({
+    name: "mf-cloud-mcp-server",
+    version: "1.0.0",
+  });
+  registerAllTools(server, createServices(config));
+  return server;
+}
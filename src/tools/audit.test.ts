@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import { registerAuditTools, withToolContext } from "./audit.js";
+import { currentTool } from "../client/audit-log.js";
+
+describe("registerAuditTools", () => {
+  it("registers mf_audit_log_query", () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockAuditLog = {} as any;
+
+    registerAuditTools(mockServer as any, mockAuditLog);
+
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(1);
+    expect(mockServer.registerTool.mock.calls[0][0]).toBe("mf_audit_log_query");
+  });
+
+  it("passes filters to the audit log with a default limit", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockAuditLog = {
+      filePath: "/tmp/audit.jsonl",
+      query: vi.fn().mockResolvedValue([]),
+    } as any;
+
+    registerAuditTools(mockServer as any, mockAuditLog);
+    const handler = mockServer.registerTool.mock.calls[0][2];
+    const result = await handler({ tool: "invoice_delete_billing" });
+
+    expect(mockAuditLog.query).toHaveBeenCalledWith({
+      tool: "invoice_delete_billing",
+      limit: 50,
+    });
+    expect(result.content[0].text).toContain("No audit log entries");
+  });
+});
+
+describe("withToolContext", () => {
+  it("runs handlers with their tool name as context", async () => {
+    const mockServer = { registerTool: vi.fn() };
+
+    withToolContext(mockServer as any).registerTool(
+      "invoice_update_billing",
+      {},
+      async () => currentTool()
+    );
+    const handler = mockServer.registerTool.mock.calls[0][2];
+
+    await expect(handler({}, {})).resolves.toBe("invoice_update_billing");
+  });
+});
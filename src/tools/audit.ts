@@ -0,0 +1,68 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { runInToolContext, type AuditLog } from "../client/audit-log.js";
+import { withErrorHandling } from "./errors.js";
+
+/**
+ * Wraps a server so that every tool handler runs in a tool context.
+ *
+ * API calls made while a handler runs are then attributed to that tool in
+ * the audit log. Every other member is forwarded as-is.
+ *
+ * @param server - The MCP server to register tools on
+ * @returns A server whose `registerTool` tags handlers with their tool name
+ */
+export function withToolContext(server: McpServer): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "registerTool") {
+        return (name: string, config: unknown, handler: (...args: unknown[]) => unknown) =>
+          (target.registerTool as (...args: unknown[]) => unknown).call(
+            target,
+            name,
+            config,
+            (...args: unknown[]) => runInToolContext(name, () => handler(...args))
+          );
+      }
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Registers the audit log query tool.
+ *
+ * @param server - The MCP server instance
+ * @param auditLog - The audit log written by MfApiClient
+ */
+export function registerAuditTools(server: McpServer, auditLog: AuditLog): void {
+  server.registerTool(
+    "mf_audit_log_query",
+    {
+      description:
+        "Search the local audit log of every create/update/delete call this server made to Money Forward (newest first). Filter by date range, tool name or resource ID.",
+      inputSchema: z.object({
+        from: z.string().optional().describe("Earliest date (YYYY-MM-DD) or ISO date-time"),
+        to: z.string().optional().describe("Latest date (YYYY-MM-DD, whole day, UTC) or ISO date-time"),
+        tool: z.string().optional().describe("Tool name, e.g. 'invoice_update_billing'"),
+        resource_id: z.string().optional().describe("ID of the affected resource"),
+        limit: z.number().int().min(1).max(1000).optional().describe("Max entries to return (default: 50)"),
+      }),
+    },
+    withErrorHandling(async ({ from, to, tool, resource_id, limit }) => {
+      const entries = await auditLog.query({
+        from,
+        to,
+        tool,
+        resource_id,
+        limit: limit ?? 50,
+      });
+      const text =
+        entries.length === 0
+          ? `No audit log entries match (log: ${auditLog.filePath}).`
+          : JSON.stringify(entries, null, 2);
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+}
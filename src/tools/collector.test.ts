@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { ToolCollector, withToolNameRecorder } from "./collector.js";
+import { withReadOnlyFilter } from "./read-only.js";
+
+describe("ToolCollector", () => {
+  it("lists registered tools sorted by name", () => {
+    const collector = new ToolCollector();
+    const server = collector.asServer();
+    server.registerTool("b_tool", { description: "B" }, vi.fn());
+    server.registerTool("a_tool", { description: "A" }, vi.fn());
+
+    expect(collector.list().map((t) => t.name)).toEqual(["a_tool", "b_tool"]);
+  });
+
+  it("validates arguments before calling the handler", async () => {
+    const collector = new ToolCollector();
+    const handler = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "ok" }] });
+    collector.registerTool(
+      "invoice_get_billing",
+      { inputSchema: z.object({ id: z.string() }) },
+      handler
+    );
+
+    await expect(collector.call("invoice_get_billing", { id: 42 })).rejects.toThrow(
+      "Invalid arguments for invoice_get_billing"
+    );
+    expect(handler).not.toHaveBeenCalled();
+
+    const result = await collector.call("invoice_get_billing", { id: "42" });
+    expect(result.content[0].text).toBe("ok");
+    expect(handler).toHaveBeenCalledWith({ id: "42" });
+  });
+
+  it("rejects unknown tools", async () => {
+    await expect(new ToolCollector().call("nope")).rejects.toThrow('Unknown tool "nope"');
+  });
+
+  it("works behind server wrappers", () => {
+    const collector = new ToolCollector();
+    const server = withReadOnlyFilter(collector.asServer());
+    server.registerTool("invoice_delete_billing", {}, vi.fn());
+    server.registerTool("invoice_get_billing", {}, vi.fn());
+
+    expect(collector.list().map((t) => t.name)).toEqual(["invoice_get_billing"]);
+  });
+
+  it("records the names of tools that pass inner filters", () => {
+    const collector = new ToolCollector();
+    const names: string[] = [];
+    const server = withReadOnlyFilter(withToolNameRecorder(collector.asServer(), names));
+    server.registerTool("invoice_delete_billing", {}, vi.fn());
+    server.registerTool("invoice_get_billing", {}, vi.fn());
+
+    expect(names).toEqual(["invoice_get_billing"]);
+    expect(collector.list().map((t) => t.name)).toEqual(["invoice_get_billing"]);
+  });
+});
@@ -0,0 +1,111 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { ToolResult } from "./errors.js";
+
+/**
+ * A tool as registered through `ToolCollector`.
+ *
+ * @property name        - The tool name
+ * @property description - The tool description shown to clients
+ * @property inputSchema - The zod schema the arguments are validated against
+ * @property handler     - The tool handler
+ */
+export interface CollectedTool {
+  name: string;
+  description?: string;
+  inputSchema?: z.ZodType;
+  handler: (args: unknown) => Promise<ToolResult>;
+}
+
+/**
+ * Collects tool registrations so tools can be listed and called without an
+ * MCP client, e.g. from the command line.
+ *
+ * It implements the `registerTool` signature the register functions use, so
+ * the same registrations (and wrappers such as the read-only filter) apply.
+ *
+ * @example
+ * ```typescript
+ * const collector = new ToolCollector();
+ * registerAllTools(collector.asServer(), services);
+ * const result = await collector.call("invoice_get_billing", { id: "42" });
+ * ```
+ */
+export class ToolCollector {
+  private readonly tools = new Map<string, CollectedTool>();
+
+  /** Records a tool; mirrors `McpServer.registerTool`. */
+  registerTool(
+    name: string,
+    config: { description?: string; inputSchema?: z.ZodType },
+    handler: (args: unknown) => Promise<ToolResult>
+  ): void {
+    this.tools.set(name, {
+      name,
+      description: config.description,
+      inputSchema: config.inputSchema,
+      handler,
+    });
+  }
+
+  /** Returns this collector typed as a server for the register functions. */
+  asServer(): McpServer {
+    return this as unknown as McpServer;
+  }
+
+  /** All collected tools, sorted by name. */
+  list(): CollectedTool[] {
+    return [...this.tools.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Validates the arguments and calls a tool.
+   *
+   * @param name - The tool name
+   * @param args - The tool arguments
+   * @returns The tool's result
+   * @throws {Error} If the tool is unknown or the arguments are invalid
+   */
+  async call(name: string, args: unknown = {}): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool "${name}". Run list-tools to see the available tools.`);
+    }
+    if (!tool.inputSchema) return tool.handler(args);
+    const parsed = tool.inputSchema.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(`Invalid arguments for ${name}:\n${z.prettifyError(parsed.error)}`);
+    }
+    return tool.handler(parsed.data);
+  }
+}
+
+/**
+ * Wraps a server so the name of every registered tool is appended to
+ * `names`, e.g. so `mf_auth_status` can report on all tools.
+ *
+ * Apply it beneath filters such as the read-only filter, so tools they
+ * drop are never recorded.
+ *
+ * @param server - The server to register tools on
+ * @param names  - Receives the registered tool names
+ * @returns A server that records names and otherwise forwards everything
+ */
+export function withToolNameRecorder(server: McpServer, names: string[]): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "registerTool") {
+        return (name: string, ...rest: unknown[]) => {
+          names.push(name);
+          return (target.registerTool as (...args: unknown[]) => unknown).call(
+            target,
+            name,
+            ...rest
+          );
+        };
+      }
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
@@ -1,19 +1,181 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { registerCommonTools } from "./common.js";
+import { AuthManager } from "../auth/auth-manager.js";
+import { TokenStore } from "../auth/token-store.js";
+import { MfApiClient } from "../client/mf-api-client.js";
+import { OfficeResolver } from "../client/office-resolver.js";
 
 describe("registerCommonTools", () => {
-  it("registers mf_auth_status and mf_auth_login tools", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("registers mf_auth_status, mf_auth_login, mf_auth_logout and mf_auth_complete tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockAuthManager = {} as any;
     const mockApiClient = {} as any;
 
-    registerCommonTools(mockServer as any, mockAuthManager, mockApiClient);
+    registerCommonTools(mockServer as any, mockAuthManager, mockApiClient, {} as any, () => []);
 
-    expect(mockServer.registerTool).toHaveBeenCalledTimes(2);
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(4);
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
     );
     expect(toolNames).toContain("mf_auth_status");
     expect(toolNames).toContain("mf_auth_login");
+    expect(toolNames).toContain("mf_auth_logout");
+    expect(toolNames).toContain("mf_auth_complete");
+  });
+
+  it("reports read-only mode in mf_auth_status", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+    const mockServer = { registerTool: vi.fn() };
+    const mockAuthManager = {
+      getAuthStatus: vi.fn().mockResolvedValue({
+        profile: "default",
+        authenticated: false,
+        expiresAt: null,
+        scope: null,
+        hasRefreshToken: false,
+        refreshTokenIssuedAt: null,
+      }),
+    } as any;
+
+    registerCommonTools(
+      mockServer as any,
+      mockAuthManager,
+      { readOnly: true } as any,
+      {} as any,
+      () => []
+    );
+
+    const handler = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "mf_auth_status"
+    )![2];
+    const result = await handler({});
+    expect(result.content[0].text).toContain("read-only");
+    expect(result.content[0].text).toContain("Refresh token: none.");
+  });
+
+  it("reports identity, offices, tool availability and connectivity in mf_auth_status", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes("invoice")) throw new TypeError("fetch failed");
+        return new Response(null, { status: 401 });
+      })
+    );
+    const mockServer = { registerTool: vi.fn() };
+    const issuedAt = Date.now() - 3 * 24 * 60 * 60 * 1000;
+    const mockAuthManager = {
+      getAuthStatus: vi.fn().mockResolvedValue({
+        profile: "default",
+        authenticated: true,
+        expiresAt: Date.parse("2030-01-01T00:00:00Z"),
+        scope: "transaction:read mfc/invoice/data.read",
+        hasRefreshToken: true,
+        refreshTokenIssuedAt: issuedAt,
+      }),
+    } as any;
+    const accountClient = {
+      get: vi.fn().mockImplementation(async (url: string) =>
+        url.endsWith("/v1/offices")
+          ? { offices: [{ id: "o1", name: "Acme" }, { id: "o2" }] }
+          : { id: "m1", name: "Taro", email: "taro@example.com" }
+      ),
+    };
+    const mockApiClient = {
+      readOnly: false,
+      withoutReauth: vi.fn().mockReturnValue(accountClient),
+    } as any;
+    const mockOffices = {
+      getDefault: vi.fn().mockReturnValue(null),
+    } as any;
+
+    registerCommonTools(mockServer as any, mockAuthManager, mockApiClient, mockOffices, () => [
+      "invoice_list_billings",
+      "invoice_create_billing",
+      "expense_list_transactions",
+    ]);
+
+    const handler = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "mf_auth_status"
+    )![2];
+    const text = (await handler({})).content[0].text;
+    expect(accountClient.get).toHaveBeenCalledWith(
+      "https://expense.moneyforward.com/api/external/v2/offices/o1/me"
+    );
+    expect(text).toContain(`issued ${new Date(issuedAt).toISOString()} (3 days ago)`);
+    expect(text).toContain("Offices: Acme (o1), o2");
+    expect(text).toContain("Signed in as: Taro <taro@example.com> (id: m1) in office o1");
+    expect(text).toContain("Tools: 2 of 3 usable with the granted scopes.");
+    expect(text).toContain("Needs mfc/invoice/data.write: invoice_create_billing");
+    expect(text).toContain("Expense API reachable (HTTP 401");
+    expect(text).toContain("Invoice API unreachable (fetch failed)");
+  });
+
+  it("does not start a login from mf_auth_status when the token was revoked", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("", { status: 401 })));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    let data: string | null = null;
+    const store = new TokenStore({
+      description: "memory",
+      read: async () => data,
+      write: async (next: string) => {
+        data = next;
+      },
+      remove: async () => {
+        data = null;
+      },
+    });
+    await store.save({
+      access_token: "revoked",
+      refresh_token: "revoked-refresh",
+      expires_at: Date.now() + 3600_000,
+      scope: "office_setting:read user:read",
+    });
+    const oauthClient = {
+      refreshToken: vi.fn().mockRejectedValue(new Error("invalid_grant")),
+      authorize: vi.fn(),
+    } as any;
+    const authManager = new AuthManager(store, oauthClient);
+    const apiClient = new MfApiClient((options) => authManager.getValidToken(options), {
+      retry: { maxAttempts: 1 },
+    });
+    const mockServer = { registerTool: vi.fn() };
+
+    registerCommonTools(mockServer as any, authManager, apiClient, new OfficeResolver(apiClient), () => []);
+    const handler = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "mf_auth_status"
+    )![2];
+    const text = (await handler({})).content[0].text;
+
+    expect(oauthClient.refreshToken).toHaveBeenCalled();
+    expect(oauthClient.authorize).not.toHaveBeenCalled();
+    expect(text).toContain("Offices: unavailable (invalid_grant)");
+  });
+
+  it("reports revoked and unrevoked tokens in mf_auth_logout", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockAuthManager = {
+      logout: vi.fn().mockResolvedValue({
+        profile: "client-a",
+        removed: true,
+        revoked: ["refresh_token"],
+        failed: [{ token_type: "access_token", error: "Token revocation failed (HTTP 503)" }],
+      }),
+    } as any;
+
+    registerCommonTools(mockServer as any, mockAuthManager, {} as any, {} as any, () => []);
+
+    const handler = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "mf_auth_logout"
+    )![2];
+    const result = await handler({});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Logged out (profile: client-a)");
+    expect(result.content[0].text).toContain("Revoked at Money Forward: refresh token.");
+    expect(result.content[0].text).toContain("Could not revoke the access token: Token revocation failed (HTTP 503)");
   });
 });
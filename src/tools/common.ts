@@ -1,44 +1,204 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import type { AuthManager } from "../auth/auth-manager.js";
+import type { AuthManager, LogoutResult } from "../auth/auth-manager.js";
 import type { MfApiClient } from "../client/mf-api-client.js";
+import { OfficeResolver, type OfficeSummary } from "../client/office-resolver.js";
+import { checkConnectivity, type ConnectivityResult } from "../client/connectivity.js";
+import { recognizedScopes, toolRequiredScopes } from "../auth/scopes.js";
+import { EXPENSE_BASE_URL } from "../types/expense.js";
+import { INVOICE_BASE_URL } from "../types/invoice.js";
+import { withErrorHandling } from "./errors.js";
+import { isMutatingTool } from "./read-only.js";
+
+/** Human-readable names for revoked token types. */
+const TOKEN_TYPE_NAMES = {
+  access_token: "access token",
+  refresh_token: "refresh token",
+} as const;
+
+/** Describes the outcome of a logout. */
+function describeLogout(result: LogoutResult): string {
+  if (!result.removed) {
+    return `Profile ${result.profile} had no stored tokens; nothing to revoke.`;
+  }
+  const lines = [`Logged out (profile: ${result.profile}). Stored tokens were deleted.`];
+  if (result.revoked.length > 0) {
+    lines.push(`Revoked at Money Forward: ${result.revoked.map((t) => TOKEN_TYPE_NAMES[t]).join(", ")}.`);
+  }
+  for (const { token_type, error } of result.failed) {
+    lines.push(
+      `Could not revoke the ${TOKEN_TYPE_NAMES[token_type]}: ${error}. It stays valid at Money Forward until it expires; revoke the app in Money Forward's settings to end it now.`
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Formats a duration as a rough age, e.g. "5 minutes" or "3 days". */
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? "" : "s"}`;
+  return `${Math.floor(hours / 24)} days`;
+}
+
+/** Describes the stored refresh token. */
+function describeRefreshToken(hasRefreshToken: boolean, issuedAt: number | null): string {
+  if (!hasRefreshToken) return "Refresh token: none.";
+  if (issuedAt === null) return "Refresh token: present (issue time unknown).";
+  return `Refresh token: present, issued ${new Date(issuedAt).toISOString()} (${formatAge(Date.now() - issuedAt)} ago).`;
+}
+
+/** Summarizes the `/me` response as "name <email> (id: ...)". */
+function describeIdentity(data: unknown): string {
+  const record = (typeof data === "object" && data !== null ? data : {}) as Record<string, unknown>;
+  const nested = record.office_member ?? record.me;
+  const me = (typeof nested === "object" && nested !== null ? nested : record) as Record<string, unknown>;
+  const parts = [
+    me.name,
+    me.email ? `<${String(me.email)}>` : undefined,
+    me.id !== undefined ? `(id: ${String(me.id)})` : undefined,
+  ].filter((p) => p !== undefined && p !== "");
+  return parts.length > 0 ? parts.join(" ") : JSON.stringify(data);
+}
+
+/** Describes which registered tools the granted scopes allow. */
+function describeToolAvailability(toolNames: string[], scope: string | null): string {
+  if (scope === null) return "Tools: availability is known after login.";
+  const granted = recognizedScopes(scope);
+  if (granted.length === 0) {
+    return "Tools: the token's scopes are not recognized; the API decides what is allowed.";
+  }
+  const missing = new Map<string, string[]>();
+  for (const name of toolNames) {
+    const required = toolRequiredScopes(name, isMutatingTool(name));
+    if (!required || required.some((s) => granted.includes(s))) continue;
+    const key = required.join(" or ");
+    missing.set(key, [...(missing.get(key) ?? []), name]);
+  }
+  const unavailable = [...missing.values()].flat().length;
+  const lines = [
+    `Tools: ${toolNames.length - unavailable} of ${toolNames.length} usable with the granted scopes.`,
+  ];
+  for (const [required, names] of missing) {
+    lines.push(`  Needs ${required}: ${names.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/** Describes a connectivity check, e.g. "Expense API reachable (HTTP 401, 80 ms)". */
+function describeConnectivity(label: string, result: ConnectivityResult): string {
+  return result.reachable
+    ? `${label} reachable (HTTP ${result.status}, ${result.latency_ms} ms)`
+    : `${label} unreachable (${result.error})`;
+}
 
 /**
  * Registers common MF Cloud tools for authentication management.
  *
  * @param server - The MCP server instance to register tools on
  * @param authManager - The auth manager for token lifecycle operations
- * @param _apiClient - The API client (unused here, reserved for future common tools)
+ * @param apiClient - The API client (consulted for read-only mode and identity)
+ * @param offices - Provides the default office for the identity lookup
+ * @param toolNames - Returns the names of all registered tools
  */
 export function registerCommonTools(
   server: McpServer,
   authManager: AuthManager,
-  _apiClient: MfApiClient
+  apiClient: MfApiClient,
+  offices: OfficeResolver,
+  toolNames: () => string[]
 ): void {
   server.registerTool(
     "mf_auth_status",
     {
       description:
-        "Check MF Cloud authentication status — shows whether tokens are valid and when they expire.",
+        "Check MF Cloud authentication status — shows whether tokens are valid and when they expire, the refresh token's age, the signed-in user and their offices, which tools the granted scopes allow, whether the Expense and Invoice APIs are reachable, and whether the server is in read-only mode.",
       inputSchema: z.object({}),
     },
-    async () => {
+    withErrorHandling(async () => {
       const status = await authManager.getAuthStatus();
-      const text = status.authenticated
-        ? `Authenticated. Token expires at: ${new Date(status.expiresAt!).toISOString()}. Scopes: ${status.scope}`
-        : "Not authenticated. Run mf_auth_login to authenticate.";
-      return { content: [{ type: "text" as const, text }] };
-    }
+      // Connectivity does not depend on the token, so check it meanwhile
+      const connectivity = Promise.all([
+        checkConnectivity(EXPENSE_BASE_URL),
+        checkConnectivity(INVOICE_BASE_URL),
+      ]);
+      const lines = [
+        status.authenticated
+          ? `Authenticated (profile: ${status.profile}). Token expires at: ${new Date(status.expiresAt!).toISOString()}. Scopes: ${status.scope}`
+          : `Not authenticated (profile: ${status.profile}). Run mf_auth_login to authenticate.`,
+        describeRefreshToken(status.hasRefreshToken, status.refreshTokenIssuedAt),
+      ];
+
+      // Only query the account with a valid token, and without re-authenticating
+      // if the API rejects it, so status never starts a login
+      if (status.authenticated) {
+        const accountClient = apiClient.withoutReauth();
+        let list: OfficeSummary[] = [];
+        try {
+          list = await new OfficeResolver(accountClient).listOffices();
+          lines.push(
+            `Offices: ${list.length > 0 ? list.map((o) => (o.name ? `${o.name} (${o.id})` : o.id)).join(", ") : "none"}`
+          );
+        } catch (error) {
+          lines.push(`Offices: unavailable (${error instanceof Error ? error.message : String(error)})`);
+        }
+        const officeId = offices.getDefault() ?? list[0]?.id;
+        if (officeId) {
+          try {
+            const me = await accountClient.get(`${EXPENSE_BASE_URL}/v2/offices/${officeId}/me`);
+            lines.push(`Signed in as: ${describeIdentity(me)} in office ${officeId}`);
+          } catch (error) {
+            lines.push(`Signed in as: unavailable (${error instanceof Error ? error.message : String(error)})`);
+          }
+        }
+      }
+
+      lines.push(describeToolAvailability(toolNames(), status.scope));
+      const [expense, invoice] = await connectivity;
+      lines.push(
+        `Connectivity: ${describeConnectivity("Expense API", expense)}; ${describeConnectivity("Invoice API", invoice)}.`
+      );
+      lines.push(
+        apiClient.readOnly
+          ? "Mode: read-only — create/update/delete/approve/convert tools are disabled."
+          : "Mode: read-write."
+      );
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    })
   );
 
   server.registerTool(
     "mf_auth_login",
     {
       description:
-        "Re-authenticate with MF Cloud — opens browser for OAuth login. Use when tokens have expired and auto-refresh failed.",
-      inputSchema: z.object({}),
+        "Re-authenticate with MF Cloud — opens browser for OAuth login. Use when tokens have expired and auto-refresh failed. In headless mode (or with headless: true) it returns a login URL instead; finish with mf_auth_complete.",
+      inputSchema: z.object({
+        headless: z
+          .boolean()
+          .optional()
+          .describe("Return the login URL instead of opening a browser (for remote/SSH setups)"),
+      }),
     },
-    async () => {
+    async ({ headless }) => {
+      if (headless ?? authManager.headless) {
+        const url = authManager.startHeadlessAuth();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: [
+                "Open this URL in a browser on any machine and approve access:",
+                url,
+                "",
+                "The browser is then redirected to the callback URL, which may fail to load — that is expected.",
+                "Copy the full URL from the address bar and pass it to mf_auth_complete within 10 minutes.",
+              ].join("\n"),
+            },
+          ],
+        };
+      }
+
       try {
         await authManager.doInteractiveAuth();
         return {
@@ -62,4 +222,56 @@ export function registerCommonTools(
       }
     }
   );
+
+  server.registerTool(
+    "mf_auth_logout",
+    {
+      description:
+        "Log out of MF Cloud — revokes the active profile's access and refresh tokens at Money Forward and deletes them from local storage. The next tool call requires a new login.",
+      inputSchema: z.object({}),
+    },
+    withErrorHandling(async () => {
+      const result = await authManager.logout();
+      return {
+        content: [{ type: "text" as const, text: describeLogout(result) }],
+        ...(result.failed.length > 0 ? { isError: true } : {}),
+      };
+    })
+  );
+
+  server.registerTool(
+    "mf_auth_complete",
+    {
+      description:
+        "Complete a headless login started by mf_auth_login. Pass the full redirect URL from the browser's address bar (preferred, its state is verified) or just the authorization code.",
+      inputSchema: z.object({
+        authorization_response: z
+          .string()
+          .describe("The redirect URL (http://localhost:3456/callback?code=...&state=...) or the code value"),
+      }),
+    },
+    async ({ authorization_response }) => {
+      try {
+        const tokens = await authManager.completeHeadlessAuth(authorization_response);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Authentication successful. Token expires at: ${new Date(tokens.expires_at).toISOString()}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Authentication failed: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 }
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConfirmationStore, confirmOrPreview } from "./confirmation.js";
+
+describe("ConfirmationStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("redeems a token once for the operation it was issued for", () => {
+    const store = new ConfirmationStore();
+    const token = store.issue("invoice_delete_billing", { id: "42" });
+
+    expect(store.redeem("invoice_delete_billing", { id: "42" }, token)).toBe(true);
+    expect(store.redeem("invoice_delete_billing", { id: "42" }, token)).toBe(false);
+  });
+
+  it("rejects a token presented for another tool or target", () => {
+    const store = new ConfirmationStore();
+    const token = store.issue("invoice_delete_billing", { id: "42" });
+
+    expect(store.redeem("invoice_delete_billing", { id: "43" }, token)).toBe(false);
+    expect(store.redeem("invoice_delete_quote", { id: "42" }, token)).toBe(false);
+  });
+
+  it("ignores argument order when matching the target", () => {
+    const store = new ConfirmationStore();
+    const token = store.issue("expense_delete_member", { office_id: "o", id: "1" });
+
+    expect(
+      store.redeem("expense_delete_member", { id: "1", office_id: "o" }, token)
+    ).toBe(true);
+  });
+
+  it("expires tokens after the TTL", () => {
+    vi.useFakeTimers();
+    const store = new ConfirmationStore(1000);
+    const token = store.issue("invoice_delete_billing", { id: "42" });
+
+    vi.advanceTimersByTime(1001);
+
+    expect(store.redeem("invoice_delete_billing", { id: "42" }, token)).toBe(false);
+  });
+});
+
+describe("confirmOrPreview", () => {
+  const operation = (token?: string) => ({
+    tool: "invoice_delete_billing",
+    action: "delete invoice 42",
+    target: { id: "42" },
+    token,
+    preview: vi.fn().mockResolvedValue({ id: "42", title: "October" }),
+    execute: vi.fn().mockResolvedValue({
+      content: [{ type: "text" as const, text: "Invoice 42 deleted." }],
+    }),
+  });
+
+  it("previews without executing and returns a token", async () => {
+    const store = new ConfirmationStore();
+    const op = operation();
+
+    const result = await confirmOrPreview(store, op);
+
+    expect(op.execute).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain('"title": "October"');
+    expect(result.content[0].text).toMatch(/confirmation_token: "[0-9a-f]{12}"/);
+  });
+
+  it("executes when called again with the issued token", async () => {
+    const store = new ConfirmationStore();
+    const preview = await confirmOrPreview(store, operation());
+    const token = /confirmation_token: "([0-9a-f]+)"/.exec(
+      preview.content[0].text
+    )![1];
+    const op = operation(token);
+
+    const result = await confirmOrPreview(store, op);
+
+    expect(op.preview).not.toHaveBeenCalled();
+    expect(op.execute).toHaveBeenCalledOnce();
+    expect(result.content[0].text).toBe("Invoice 42 deleted.");
+  });
+
+  it("refuses an unknown token", async () => {
+    const op = operation("deadbeef0000");
+
+    await expect(confirmOrPreview(new ConfirmationStore(), op)).rejects.toThrow(
+      "Invalid or expired confirmation token"
+    );
+    expect(op.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import type { ToolResult } from "./errors.js";
+
+/** How long a confirmation token stays valid after the preview. */
+export const CONFIRMATION_TTL_MS = 5 * 60_000;
+
+/** Input schema field added to every destructive tool. */
+export const confirmationShape = {
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe(
+      "Token from a previous preview call. Omit it to preview what will happen; pass it to actually perform the operation"
+    ),
+};
+
+/** Serializes the operation a token is bound to, independent of key order. */
+function operationKey(tool: string, target: Record<string, unknown>): string {
+  const sorted = Object.keys(target)
+    .sort()
+    .map((k) => [k, target[k]]);
+  return JSON.stringify([tool, sorted]);
+}
+
+/**
+ * Issues and redeems short-lived, single-use confirmation tokens.
+ *
+ * A token is bound to one tool and one target (e.g. an office and an ID),
+ * so it cannot be replayed against a different resource.
+ *
+ * @example
+ * ```typescript
+ * const confirmations = new ConfirmationStore();
+ * const token = confirmations.issue("invoice_delete_billing", { id: "42" });
+ * confirmations.redeem("invoice_delete_billing", { id: "42" }, token); // true
+ * ```
+ */
+export class ConfirmationStore {
+  private readonly pending = new Map<
+    string,
+    { operation: string; expiresAt: number }
+  >();
+
+  constructor(readonly ttlMs: number = CONFIRMATION_TTL_MS) {}
+
+  /**
+   * Issues a token for the given operation.
+   *
+   * @param tool   - The destructive tool's name
+   * @param target - The arguments identifying the affected resource
+   * @returns The confirmation token
+   */
+  issue(tool: string, target: Record<string, unknown>): string {
+    this.prune();
+    const token = randomBytes(6).toString("hex");
+    this.pending.set(token, {
+      operation: operationKey(tool, target),
+      expiresAt: Date.now() + this.ttlMs,
+    });
+    return token;
+  }
+
+  /**
+   * Redeems a token. A redeemed token cannot be used again.
+   *
+   * @param tool   - The destructive tool's name
+   * @param target - The arguments identifying the affected resource
+   * @param token  - The token returned by `issue`
+   * @returns true if the token is valid for exactly this operation
+   */
+  redeem(tool: string, target: Record<string, unknown>, token: string): boolean {
+    this.prune();
+    const entry = this.pending.get(token);
+    if (!entry || entry.operation !== operationKey(tool, target)) return false;
+    this.pending.delete(token);
+    return true;
+  }
+
+  /** Drops expired tokens. */
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Describes a destructive operation for `confirmOrPreview`.
+ *
+ * @property tool    - The tool name, repeated in the preview instructions
+ * @property action  - What will happen, e.g. "delete invoice 42"
+ * @property target  - The arguments identifying the affected resource
+ * @property token   - The `confirmation_token` argument, if given
+ * @property preview - Fetches the current state of the resource
+ * @property execute - Performs the operation
+ */
+export interface DestructiveOperation {
+  tool: string;
+  action: string;
+  target: Record<string, unknown>;
+  token?: string;
+  preview: () => Promise<unknown>;
+  execute: () => Promise<ToolResult>;
+}
+
+/**
+ * Runs the two-step preview/confirm protocol for a destructive tool.
+ *
+ * Without a token, the resource is fetched and returned together with a
+ * new confirmation token; nothing is changed. With a valid token for the
+ * same tool and target, the operation is executed.
+ *
+ * @param confirmations - The token store
+ * @param op            - The operation to preview or execute
+ * @returns The preview or the operation's result
+ * @throws {Error} If the token is unknown, expired, already used or issued
+ *   for a different operation
+ */
+export async function confirmOrPreview(
+  confirmations: ConfirmationStore,
+  op: DestructiveOperation
+): Promise<ToolResult> {
+  if (op.token) {
+    if (!confirmations.redeem(op.tool, op.target, op.token)) {
+      throw new Error(
+        `Invalid or expired confirmation token for ${op.tool}. Call it again without confirmation_token to get a new preview.`
+      );
+    }
+    return op.execute();
+  }
+
+  const current = await op.preview();
+  const token = confirmations.issue(op.tool, op.target);
+  const minutes = Math.round(confirmations.ttlMs / 60_000);
+  const text = [
+    `Preview — this will ${op.action}. Nothing has been changed yet.`,
+    "",
+    JSON.stringify(current, null, 2),
+    "",
+    `To proceed, call ${op.tool} again with the same arguments and confirmation_token: "${token}" (valid for ${minutes} minutes, single use).`,
+  ].join("\n");
+  return { content: [{ type: "text" as const, text }] };
+}
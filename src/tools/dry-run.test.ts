@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { computeLineItemTotals, dryRunResult } from "./dry-run.js";
+
+describe("computeLineItemTotals", () => {
+  it("computes subtotals and rounds tax down per rate", () => {
+    const totals = computeLineItemTotals([
+      { name: "Consulting", quantity: 3, unit_price: 333, excise: "ten_percent" },
+      { name: "Books", quantity: 1, unit_price: 1001, excise: "eight_percent_as_reduced_tax_rate" },
+      { name: "Discount", quantity: 1, unit_price: 99, is_deduct: true, excise: "ten_percent" },
+    ]);
+
+    expect(totals.items.map((i) => i.subtotal)).toEqual([999, 1001, -99]);
+    expect(totals.by_rate).toEqual([
+      { tax_rate: 0.1, subtotal: 900, tax: 90 },
+      { tax_rate: 0.08, subtotal: 1001, tax: 80 },
+    ]);
+    expect(totals.subtotal).toBe(1901);
+    expect(totals.tax).toBe(170);
+    expect(totals.total).toBe(2071);
+    expect(totals.uncomputed_tax_items).toBeUndefined();
+  });
+
+  it("defaults quantity to 1 and reports items without a known rate", () => {
+    const totals = computeLineItemTotals([
+      { name: "Setup", unit_price: 5000 },
+      { name: "Other", unit_price: 100, excise: "tax_include" },
+    ]);
+
+    expect(totals.subtotal).toBe(5100);
+    expect(totals.tax).toBe(0);
+    expect(totals.uncomputed_tax_items).toEqual(["Setup", "Other"]);
+  });
+});
+
+describe("dryRunResult", () => {
+  it("describes the request with the serialized body and totals", () => {
+    const result = dryRunResult(
+      "POST",
+      "https://invoice.moneyforward.com/api/v3/billings/1/items",
+      { item: { name: "Fee", unit_price: 1000, excise: "ten_percent", memo: undefined } },
+      [{ name: "Fee", unit_price: 1000, excise: "ten_percent" }]
+    );
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed).toMatchObject({
+      dry_run: true,
+      method: "POST",
+      url: "https://invoice.moneyforward.com/api/v3/billings/1/items",
+      body: { item: { name: "Fee", unit_price: 1000, excise: "ten_percent" } },
+      totals: { subtotal: 1000, tax: 100, total: 1100 },
+    });
+    expect(parsed.body.item).not.toHaveProperty("memo");
+  });
+
+  it("omits body and totals for bodiless requests", () => {
+    const parsed = JSON.parse(
+      dryRunResult("DELETE", "https://invoice.moneyforward.com/api/v3/billings/1")
+        .content[0].text
+    );
+
+    expect(parsed).toEqual({
+      dry_run: true,
+      method: "DELETE",
+      url: "https://invoice.moneyforward.com/api/v3/billings/1",
+    });
+  });
+});
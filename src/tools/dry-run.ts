@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { ToolResult } from "./errors.js";
+
+/** Input schema field added to every mutating tool. */
+export const dryRunShape = {
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, return the request that would be sent (URL, method, body and computed line-item totals) without calling Money Forward"
+    ),
+};
+
+/**
+ * Consumption tax rates for the Invoice `excise` values.
+ *
+ * Values not listed here (or omitted) leave the item's tax uncomputed.
+ */
+export const EXCISE_RATES: Record<string, number> = {
+  ten_percent: 0.1,
+  eight_percent: 0.08,
+  eight_percent_as_reduced_tax_rate: 0.08,
+  five_percent: 0.05,
+  untaxable: 0,
+  non_taxable: 0,
+  tax_exemption: 0,
+};
+
+/** A line item as accepted by the Invoice create/add-item tools. */
+export interface LineItemInput {
+  name?: string;
+  quantity?: number;
+  unit_price?: number;
+  is_deduct?: boolean;
+  excise?: string;
+}
+
+/**
+ * Locally computed totals for a set of line items.
+ *
+ * @property items    - Per-item subtotal (quantity × unit price, negative for deductions) and tax rate
+ * @property by_rate  - Subtotal and tax per tax rate; tax is rounded down once per rate
+ * @property subtotal - Sum of all item subtotals
+ * @property tax      - Sum of the per-rate taxes
+ * @property total    - subtotal + tax
+ * @property uncomputed_tax_items - Names of items whose excise has no known rate
+ */
+export interface LineItemTotals {
+  items: { name?: string; subtotal: number; tax_rate: number | null }[];
+  by_rate: { tax_rate: number; subtotal: number; tax: number }[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  uncomputed_tax_items?: string[];
+}
+
+/**
+ * Computes subtotals and consumption tax for line items.
+ *
+ * Quantity defaults to 1 and unit price to 0. Tax is computed per rate on
+ * the summed subtotals and rounded down, as on a qualified invoice
+ * (適格請求書). Items without a known rate are excluded from the tax.
+ *
+ * @param items - The line items
+ * @returns The computed totals
+ */
+export function computeLineItemTotals(items: LineItemInput[]): LineItemTotals {
+  const rows = items.map((item) => {
+    const amount = (item.quantity ?? 1) * (item.unit_price ?? 0);
+    const rate =
+      item.excise === undefined ? null : (EXCISE_RATES[item.excise] ?? null);
+    return {
+      name: item.name,
+      subtotal: item.is_deduct ? -amount : amount,
+      tax_rate: rate,
+    };
+  });
+
+  const byRate = new Map<number, number>();
+  for (const row of rows) {
+    if (row.tax_rate === null) continue;
+    byRate.set(row.tax_rate, (byRate.get(row.tax_rate) ?? 0) + row.subtotal);
+  }
+  const by_rate = [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([tax_rate, subtotal]) => ({
+      tax_rate,
+      subtotal,
+      tax: Math.sign(subtotal) * Math.floor(Math.abs(subtotal) * tax_rate),
+    }));
+
+  const subtotal = rows.reduce((sum, r) => sum + r.subtotal, 0);
+  const tax = by_rate.reduce((sum, r) => sum + r.tax, 0);
+  const uncomputed = rows
+    .filter((r) => r.tax_rate === null)
+    .map((r) => r.name ?? "(unnamed)");
+  return {
+    items: rows,
+    by_rate,
+    subtotal,
+    tax,
+    total: subtotal + tax,
+    ...(uncomputed.length > 0 ? { uncomputed_tax_items: uncomputed } : {}),
+  };
+}
+
+/**
+ * Describes the request a mutating tool would send, without sending it.
+ *
+ * The body is shown exactly as MfApiClient would serialize it.
+ *
+ * @param method - The HTTP method
+ * @param url    - The resolved request URL
+ * @param body   - The request body, if any
+ * @param items  - Line items to compute totals for, if the request has any
+ * @returns A text tool result with the request description as JSON
+ */
+export function dryRunResult(
+  method: "POST" | "PUT" | "DELETE",
+  url: string,
+  body?: unknown,
+  items?: LineItemInput[]
+): ToolResult {
+  const preview = {
+    dry_run: true,
+    method,
+    url,
+    ...(body ? { body: JSON.parse(JSON.stringify(body)) as unknown } : {}),
+    ...(items && items.length > 0
+      ? { totals: computeLineItemTotals(items) }
+      : {}),
+  };
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(preview, null, 2) }],
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseErrorBody,
+  statusHint,
+  toolErrorResult,
+  withErrorHandling,
+} from "./errors.js";
+import { MfApiError } from "../client/mf-api-client.js";
+
+describe("parseErrorBody", () => {
+  it("parses Invoice-style error arrays with codes", () => {
+    const parsed = parseErrorBody(
+      JSON.stringify({
+        errors: [
+          { field: "billing_date", message: "is invalid", code: "invalid_date" },
+        ],
+      })
+    );
+    expect(parsed.messages).toEqual(["billing_date: is invalid"]);
+    expect(parsed.codes).toEqual(["invalid_date"]);
+  });
+
+  it("parses field-keyed error maps", () => {
+    const parsed = parseErrorBody(
+      JSON.stringify({ errors: { value: ["must be positive"], memo: "too long" } })
+    );
+    expect(parsed.messages).toEqual(["value: must be positive", "memo: too long"]);
+  });
+
+  it("falls back to message, error and raw text", () => {
+    expect(parseErrorBody('{"error":"not_found"}').messages).toEqual(["not_found"]);
+    expect(parseErrorBody("Bad Gateway").messages).toEqual(["Bad Gateway"]);
+    expect(parseErrorBody("").messages).toEqual([]);
+  });
+});
+
+describe("statusHint", () => {
+  it("maps statuses to actionable hints", () => {
+    expect(statusHint(403)).toContain("scope");
+    expect(statusHint(404)).toContain("office_id");
+    expect(statusHint(503)).toContain("server error");
+    expect(statusHint(418)).toBeNull();
+  });
+});
+
+describe("toolErrorResult", () => {
+  it("formats MfApiError with messages and hint", () => {
+    const result = toolErrorResult(
+      new MfApiError(422, "Unprocessable Entity", '{"errors":{"value":["is required"]}}')
+    );
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("MF API error 422");
+    expect(result.content[0].text).toContain("- value: is required");
+    expect(result.content[0].text).toContain("Hint: Validation failed");
+  });
+
+  it("formats generic errors", () => {
+    const result = toolErrorResult(new Error("network down"));
+    expect(result.content[0].text).toBe("Error: network down");
+  });
+});
+
+describe("withErrorHandling", () => {
+  it("returns isError results instead of throwing", async () => {
+    const handler = withErrorHandling(async () => {
+      throw new MfApiError(404, "Not Found", "");
+    });
+    const result = await handler();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("MF API error 404");
+  });
+
+  it("passes successful results through", async () => {
+    const ok = { content: [{ type: "text" as const, text: "ok" }] };
+    const handler = withErrorHandling(async (_args: { id: string }) => ok);
+    await expect(handler({ id: "1" })).resolves.toBe(ok);
+  });
+});
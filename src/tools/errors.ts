@@ -0,0 +1,193 @@
+import { MfApiError } from "../client/mf-api-client.js";
+
+/**
+ * A file embedded in a tool result as an MCP resource.
+ *
+ * @property resource.uri      - Where the file was saved (a `file://` URI)
+ * @property resource.mimeType - The file's media type
+ * @property resource.blob     - The file contents, base64-encoded
+ */
+export interface EmbeddedResourceContent {
+  type: "resource";
+  resource: { uri: string; mimeType?: string; blob: string };
+}
+
+/** The result shape returned by every tool handler. */
+export interface ToolResult {
+  [key: string]: unknown;
+  content: ({ type: "text"; text: string } | EmbeddedResourceContent)[];
+  isError?: boolean;
+}
+
+/**
+ * The useful parts of a Money Forward error payload.
+ *
+ * @property messages - Human-readable messages, prefixed with the field name when known
+ * @property codes    - Machine-readable error codes, if any
+ */
+export interface ParsedErrorBody {
+  messages: string[];
+  codes: string[];
+}
+
+/** Actionable hints keyed by HTTP status. */
+const STATUS_HINTS: Record<number, string> = {
+  400: "The request was rejected. Check the fields listed above and retry.",
+  401: "Authentication failed. Run mf_auth_login to re-authenticate.",
+  403: "Permission denied. The granted OAuth scopes or your Money Forward role do not allow this operation — check mf_auth_status.",
+  404: "Resource not found. Check the ID, and for Expense tools that office_id is correct (see expense_list_offices).",
+  409: "The resource was changed or is in a state that does not allow this operation. Fetch it again and retry.",
+  422: "Validation failed. Fix the fields listed above and retry.",
+  429: "Rate limited by Money Forward. Wait a moment before retrying.",
+};
+
+/**
+ * Returns an actionable hint for the given HTTP status.
+ *
+ * @param status - The HTTP status code
+ * @returns A hint string, or null if none applies
+ */
+export function statusHint(status: number): string | null {
+  if (STATUS_HINTS[status]) return STATUS_HINTS[status];
+  if (status >= 500) {
+    return "Money Forward returned a server error. Try again later.";
+  }
+  return null;
+}
+
+function describeError(entry: unknown, field?: string): string | null {
+  const prefix = field ? `${field}: ` : "";
+  if (typeof entry === "string") return `${prefix}${entry}`;
+  if (typeof entry === "object" && entry !== null) {
+    const o = entry as Record<string, unknown>;
+    const name = o.field ?? o.param ?? o.attribute ?? field;
+    const message = o.message ?? o.detail ?? o.error;
+    if (typeof message === "string") {
+      return typeof name === "string" ? `${name}: ${message}` : message;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses a Money Forward error response body.
+ *
+ * Handles the shapes returned by the Expense and Invoice APIs:
+ * `{ errors: [{ message, code, field }] }`, `{ errors: { field: ["msg"] } }`,
+ * `{ message }`, and OAuth-style `{ error, error_description }`.
+ * Non-JSON bodies are returned as a single message.
+ *
+ * @param body - The raw response body
+ * @returns The extracted messages and codes
+ */
+export function parseErrorBody(body: string): ParsedErrorBody {
+  const result: ParsedErrorBody = { messages: [], codes: [] };
+  if (!body.trim()) return result;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    result.messages.push(body.trim().slice(0, 500));
+    return result;
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    result.messages.push(String(parsed));
+    return result;
+  }
+
+  const o = parsed as Record<string, unknown>;
+  const collectCode = (v: unknown) => {
+    if (typeof v === "string" || typeof v === "number") {
+      result.codes.push(String(v));
+    }
+  };
+
+  if (Array.isArray(o.errors)) {
+    for (const entry of o.errors) {
+      const msg = describeError(entry);
+      if (msg) result.messages.push(msg);
+      if (typeof entry === "object" && entry !== null) {
+        collectCode((entry as Record<string, unknown>).code);
+      }
+    }
+  } else if (typeof o.errors === "object" && o.errors !== null) {
+    for (const [field, value] of Object.entries(o.errors)) {
+      for (const entry of Array.isArray(value) ? value : [value]) {
+        const msg = describeError(entry, field);
+        if (msg) result.messages.push(msg);
+      }
+    }
+  }
+
+  for (const key of ["message", "error_description", "error"] as const) {
+    if (typeof o[key] === "string" && !result.messages.includes(o[key])) {
+      result.messages.push(o[key]);
+    }
+  }
+  collectCode(o.code);
+
+  return result;
+}
+
+/**
+ * Converts any error thrown by a tool handler into an `isError` tool result.
+ *
+ * `MfApiError`s are expanded into the API's field errors, error codes and a
+ * status-specific hint; other errors are reported by message.
+ *
+ * @param error - The caught error
+ * @returns A tool result with `isError: true`
+ */
+export function toolErrorResult(error: unknown): ToolResult {
+  const lines: string[] = [];
+
+  if (error instanceof MfApiError) {
+    lines.push(`MF API error ${error.status} (${error.statusText})`);
+    const { messages, codes } = parseErrorBody(error.body);
+    if (messages.length > 0) {
+      lines.push("Errors:", ...messages.map((m) => `- ${m}`));
+    }
+    if (codes.length > 0) {
+      lines.push(`Error codes: ${codes.join(", ")}`);
+    }
+    const hint = statusHint(error.status);
+    if (hint) lines.push(`Hint: ${hint}`);
+  } else {
+    lines.push(
+      `Error: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return {
+    content: [{ type: "text" as const, text: lines.join("\n") }],
+    isError: true,
+  };
+}
+
+/**
+ * Wraps a tool handler so that thrown errors become structured `isError`
+ * results instead of opaque protocol errors.
+ *
+ * @param handler - The tool handler to wrap
+ * @returns A handler with the same signature that never rejects
+ *
+ * @example
+ * ```typescript
+ * server.registerTool("invoice_get_billing", config, withErrorHandling(async ({ id }) => {
+ *   const data = await api.get(`${INVOICE_BASE_URL}/billings/${id}`);
+ *   return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+ * }));
+ * ```
+ */
+export function withErrorHandling<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<ToolResult>
+): (...args: Args) => Promise<ToolResult> {
+  return async (...args: Args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  };
+}
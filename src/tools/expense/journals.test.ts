@@ -5,8 +5,9 @@ describe("registerExpenseJournalTools", () => {
   it("registers all journal entry tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockOffices = {} as any;
 
-    registerExpenseJournalTools(mockServer as any, mockApiClient);
+    registerExpenseJournalTools(mockServer as any, mockApiClient, mockOffices);
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
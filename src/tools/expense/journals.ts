@@ -1,7 +1,11 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
+import type { OfficeResolver } from "../../client/office-resolver.js";
 import { EXPENSE_BASE_URL } from "../../types/expense.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers expense journal entry retrieval tools.
@@ -11,23 +15,25 @@ import { EXPENSE_BASE_URL } from "../../types/expense.js";
  */
 export function registerExpenseJournalTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  offices: OfficeResolver
 ): void {
   server.registerTool(
     "expense_get_transaction_journal",
     {
       description: "Get the journal entry for a specific expense transaction.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         transaction_id: z.string().describe("The transaction ID"),
       }),
     },
-    async ({ office_id, transaction_id }) => {
+    withErrorHandling(async ({ office_id, transaction_id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_transactions/${transaction_id}/ex_journal`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_transactions/${transaction_id}/ex_journal`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -35,16 +41,17 @@ export function registerExpenseJournalTools(
     {
       description: "Get the journal entry for a specific expense report.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         report_id: z.string().describe("The report ID"),
       }),
     },
-    async ({ office_id, report_id }) => {
+    withErrorHandling(async ({ office_id, report_id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_reports/${report_id}/ex_journal`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_reports/${report_id}/ex_journal`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -53,19 +60,24 @@ export function registerExpenseJournalTools(
       description:
         "List journal entries aggregated by expense reports. Supports pagination.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_journals_by_ex_reports`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_journals_by_ex_reports`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_journals", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -74,18 +86,23 @@ export function registerExpenseJournalTools(
       description:
         "List journal entries aggregated by expense transactions. Supports pagination.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_journals_by_ex_transactions`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_journals_by_ex_transactions`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_journals", { format, fields });
+    })
   );
 }
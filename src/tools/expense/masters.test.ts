@@ -5,8 +5,17 @@ describe("registerExpenseMasterTools", () => {
   it("registers all master data tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockOffices = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerExpenseMasterTools(mockServer as any, mockApiClient);
+    registerExpenseMasterTools(
+      mockServer as any,
+      mockApiClient,
+      mockOffices,
+      mockConfirmations,
+      mockUndo
+    );
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
@@ -1,7 +1,14 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
+import type { OfficeResolver } from "../../client/office-resolver.js";
 import { EXPENSE_BASE_URL } from "../../types/expense.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers expense master data tools: departments, projects, positions,
@@ -9,7 +16,10 @@ import { EXPENSE_BASE_URL } from "../../types/expense.js";
  */
 export function registerExpenseMasterTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  offices: OfficeResolver,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   // ── Departments ──────────────────────────────────────────
 
@@ -18,19 +28,24 @@ export function registerExpenseMasterTools(
     {
       description: "List departments in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_departments`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_departments`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_departments", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -38,22 +53,24 @@ export function registerExpenseMasterTools(
     {
       description: "Create a new department in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         ex_department: z.object({
           name: z.string().describe("Department name"),
           code: z.string().optional().describe("Department code"),
           is_active: z.boolean().optional().describe("Whether the department is active"),
           parent_id: z.string().optional().describe("Parent department ID"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, ex_department }) => {
-      const data = await api.post(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_departments`,
-        { ex_department }
-      );
+    withErrorHandling(async ({ office_id, ex_department, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_departments`;
+      const body = { ex_department };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -61,7 +78,7 @@ export function registerExpenseMasterTools(
     {
       description: "Update a department.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("Department ID"),
         ex_department: z.object({
           name: z.string().optional(),
@@ -69,34 +86,67 @@ export function registerExpenseMasterTools(
           is_active: z.boolean().optional(),
           parent_id: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id, ex_department }) => {
-      const data = await api.put(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_departments/${id}`,
-        { ex_department }
+    withErrorHandling(async ({ office_id, id, ex_department, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_departments/${id}`;
+      const body = { ex_department };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "expense_update_department", action: "update", resource: "ex_department", url },
+        () => api.put(url, body)
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "expense_delete_department",
     {
-      description: "Delete a department. This action is irreversible.",
+      description:
+        "Delete a department. This action is irreversible. The first call only previews the department and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("Department ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id }) => {
-      await api.delete(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_departments/${id}`
-      );
-      return {
-        content: [{ type: "text" as const, text: `Department ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ office_id, id, confirmation_token, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_departments/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "expense_delete_department",
+        action: `delete department ${id}`,
+        target: { office_id: officeId, id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "expense_delete_department", action: "delete", resource: "ex_department", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Department ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 
   // ── Projects ─────────────────────────────────────────────
@@ -106,19 +156,24 @@ export function registerExpenseMasterTools(
     {
       description: "List projects in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_project_codes`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_project_codes`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_project_codes", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -126,21 +181,23 @@ export function registerExpenseMasterTools(
     {
       description: "Create a new project in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         ex_project_code: z.object({
           name: z.string().describe("Project name"),
           code: z.string().optional().describe("Project code"),
           is_active: z.boolean().optional().describe("Whether the project is active"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, ex_project_code }) => {
-      const data = await api.post(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_project_codes`,
-        { ex_project_code }
-      );
+    withErrorHandling(async ({ office_id, ex_project_code, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_project_codes`;
+      const body = { ex_project_code };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -148,41 +205,74 @@ export function registerExpenseMasterTools(
     {
       description: "Update a project.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("Project ID"),
         ex_project_code: z.object({
           name: z.string().optional(),
           code: z.string().optional(),
           is_active: z.boolean().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id, ex_project_code }) => {
-      const data = await api.put(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_project_codes/${id}`,
-        { ex_project_code }
+    withErrorHandling(async ({ office_id, id, ex_project_code, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_project_codes/${id}`;
+      const body = { ex_project_code };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "expense_update_project", action: "update", resource: "ex_project_code", url },
+        () => api.put(url, body)
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "expense_delete_project",
     {
-      description: "Delete a project. This action is irreversible.",
+      description:
+        "Delete a project. This action is irreversible. The first call only previews the project and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("Project ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id }) => {
-      await api.delete(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_project_codes/${id}`
-      );
-      return {
-        content: [{ type: "text" as const, text: `Project ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ office_id, id, confirmation_token, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_project_codes/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "expense_delete_project",
+        action: `delete project ${id}`,
+        target: { office_id: officeId, id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "expense_delete_project", action: "delete", resource: "ex_project_code", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Project ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 
   // ── Positions (read-only) ────────────────────────────────
@@ -192,15 +282,17 @@ export function registerExpenseMasterTools(
     {
       description: "List positions (roles) in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        ...outputShape,
       }),
     },
-    async ({ office_id }) => {
+    withErrorHandling(async ({ office_id, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_positions`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_positions`
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_positions", { format, fields });
+    })
   );
 
   // ── Categories (expense items, read-only) ────────────────
@@ -210,15 +302,17 @@ export function registerExpenseMasterTools(
     {
       description: "List expense categories (expense items) in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        ...outputShape,
       }),
     },
-    async ({ office_id }) => {
+    withErrorHandling(async ({ office_id, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_items`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_items`
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_items", { format, fields });
+    })
   );
 
   // ── Tax classifications (excises, read-only) ─────────────
@@ -228,14 +322,16 @@ export function registerExpenseMasterTools(
     {
       description: "List tax classifications (excise types) in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        ...outputShape,
       }),
     },
-    async ({ office_id }) => {
+    withErrorHandling(async ({ office_id, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_excises`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_excises`
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_excises", { format, fields });
+    })
   );
 }
@@ -5,8 +5,17 @@ describe("registerExpenseMemberTools", () => {
   it("registers all member management tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockOffices = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerExpenseMemberTools(mockServer as any, mockApiClient);
+    registerExpenseMemberTools(
+      mockServer as any,
+      mockApiClient,
+      mockOffices,
+      mockConfirmations,
+      mockUndo
+    );
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
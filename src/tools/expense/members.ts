@@ -1,33 +1,48 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
+import type { OfficeResolver } from "../../client/office-resolver.js";
 import { EXPENSE_BASE_URL } from "../../types/expense.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers expense member (employee) management tools.
  */
 export function registerExpenseMemberTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  offices: OfficeResolver,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   server.registerTool(
     "expense_list_members",
     {
       description: "List members (employees) in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/office_members`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/office_members`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "office_members", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -35,16 +50,17 @@ export function registerExpenseMemberTools(
     {
       description: "Get details of a specific member.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("The member ID"),
       }),
     },
-    async ({ office_id, id }) => {
+    withErrorHandling(async ({ office_id, id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/office_members/${id}`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/office_members/${id}`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -52,7 +68,7 @@ export function registerExpenseMemberTools(
     {
       description: "Create a new member in the office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         office_member: z.object({
           email: z.string().describe("Member email address"),
           name: z.string().optional().describe("Display name"),
@@ -60,15 +76,17 @@ export function registerExpenseMemberTools(
           ex_department_id: z.string().optional().describe("Department ID"),
           ex_position_id: z.string().optional().describe("Position ID"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, office_member }) => {
-      const data = await api.post(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/office_members`,
-        { office_member }
-      );
+    withErrorHandling(async ({ office_id, office_member, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/office_members`;
+      const body = { office_member };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -76,7 +94,7 @@ export function registerExpenseMemberTools(
     {
       description: "Update a member's information.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("Member ID to update"),
         office_member: z.object({
           name: z.string().optional(),
@@ -84,33 +102,66 @@ export function registerExpenseMemberTools(
           ex_department_id: z.string().optional(),
           ex_position_id: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id, office_member }) => {
-      const data = await api.put(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/office_members/${id}`,
-        { office_member }
+    withErrorHandling(async ({ office_id, id, office_member, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/office_members/${id}`;
+      const body = { office_member };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "expense_update_member", action: "update", resource: "office_member", url },
+        () => api.put(url, body)
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "expense_delete_member",
     {
-      description: "Delete a member from the office. This action is irreversible.",
+      description:
+        "Delete a member from the office. This action is irreversible. The first call only previews the member and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("Member ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id }) => {
-      await api.delete(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/office_members/${id}`
-      );
-      return {
-        content: [{ type: "text" as const, text: `Member ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ office_id, id, confirmation_token, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/office_members/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "expense_delete_member",
+        action: `delete member ${id}`,
+        target: { office_id: officeId, id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "expense_delete_member", action: "delete", resource: "office_member", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Member ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 }
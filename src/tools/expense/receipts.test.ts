@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  truncateSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { MAX_RECEIPT_BYTES, readReceiptFile, registerExpenseReceiptTools } from "./receipts.js";
+
+const BASE = "https://expense.moneyforward.com/api/external/v1/offices/o1/me/ex_transactions";
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe("expense receipts", () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function file(name: string, data: Buffer | string): string {
+    const path = join(dir, name);
+    writeFileSync(path, data);
+    return path;
+  }
+
+  function setup(api: Record<string, unknown>) {
+    dir = mkdtempSync(join(tmpdir(), "mf-receipts-"));
+    const mockServer = { registerTool: vi.fn() };
+    const mockOffices = { resolve: vi.fn().mockResolvedValue("o1") } as any;
+    registerExpenseReceiptTools(mockServer as any, api as any, mockOffices, join(dir, "downloads"), dir);
+    const handler = (name: string) =>
+      mockServer.registerTool.mock.calls.find((call: any[]) => call[0] === name)![2];
+    return { mockServer, handler };
+  }
+
+  describe("readReceiptFile", () => {
+    it("detects the type from the file contents", async () => {
+      dir = mkdtempSync(join(tmpdir(), "mf-receipts-"));
+
+      const receipt = await readReceiptFile(file("taxi.jpeg", PNG), dir);
+
+      expect(receipt).toMatchObject({ filename: "taxi.jpeg", mimeType: "image/png" });
+    });
+
+    it("resolves relative paths against the upload directory", async () => {
+      dir = mkdtempSync(join(tmpdir(), "mf-receipts-"));
+      file("taxi.png", PNG);
+
+      const receipt = await readReceiptFile("taxi.png", dir);
+
+      expect(receipt).toMatchObject({ filename: "taxi.png", mimeType: "image/png" });
+    });
+
+    it("rejects files outside the upload directory, including through symlinks", async () => {
+      dir = mkdtempSync(join(tmpdir(), "mf-receipts-"));
+      const uploads = join(dir, "uploads");
+      const outside = file("secret.png", PNG);
+      mkdirSync(uploads);
+      symlinkSync(outside, join(uploads, "link.png"));
+
+      await expect(readReceiptFile(outside, uploads)).rejects.toThrow("can only be uploaded from");
+      await expect(readReceiptFile("../secret.png", uploads)).rejects.toThrow("can only be uploaded from");
+      await expect(readReceiptFile("link.png", uploads)).rejects.toThrow("can only be uploaded from");
+      await expect(readReceiptFile(outside, join(dir, "missing"))).rejects.toThrow(
+        "Upload directory"
+      );
+    });
+
+    it("rejects empty, oversized and unsupported files", async () => {
+      dir = mkdtempSync(join(tmpdir(), "mf-receipts-"));
+      const large = file("large.pdf", "%PDF-");
+      truncateSync(large, MAX_RECEIPT_BYTES + 1);
+
+      await expect(readReceiptFile(file("empty.png", ""), dir)).rejects.toThrow("is empty");
+      await expect(readReceiptFile(large, dir)).rejects.toThrow("the limit is 10 MB");
+      await expect(readReceiptFile(file("notes.png", "hello"), dir)).rejects.toThrow(
+        "only JPEG, PNG and PDF are accepted"
+      );
+    });
+  });
+
+  it("registers the receipt tools", () => {
+    const { mockServer } = setup({});
+
+    expect(mockServer.registerTool.mock.calls.map((call: any[]) => call[0])).toEqual([
+      "expense_list_my_receipts",
+      "expense_download_my_receipt",
+      "expense_add_my_receipt",
+      "expense_create_my_transaction_with_receipt",
+    ]);
+  });
+
+  it("uploads a receipt to an existing transaction as multipart form data", async () => {
+    const api = { upload: vi.fn().mockResolvedValue({ id: "r1" }) };
+    const { handler } = setup(api);
+
+    await handler("expense_add_my_receipt")({ transaction_id: "t1", file_path: file("r.png", PNG) });
+
+    const [method, url, form] = api.upload.mock.calls[0];
+    expect([method, url]).toEqual(["POST", `${BASE}/t1/receipts`]);
+    const receipt = (form as FormData).get("receipt") as File;
+    expect(receipt).toMatchObject({ name: "r.png", type: "image/png", size: PNG.length });
+  });
+
+  it("validates the file before creating a transaction", async () => {
+    const api = { post: vi.fn(), upload: vi.fn() };
+    const { handler } = setup(api);
+
+    const result = await handler("expense_create_my_transaction_with_receipt")({
+      ex_transaction: { recognized_at: "2026-09-01", value: 1200 },
+      file_path: file("notes.txt", "hello"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(api.post).not.toHaveBeenCalled();
+  });
+
+  it("reports the created transaction when the receipt upload fails", async () => {
+    const api = {
+      post: vi.fn().mockResolvedValue({ ex_transaction: { id: "t9" } }),
+      upload: vi.fn().mockRejectedValue(new Error("MF API error 422: Unprocessable Entity")),
+    };
+    const { handler } = setup(api);
+
+    const result = await handler("expense_create_my_transaction_with_receipt")({
+      ex_transaction: { recognized_at: "2026-09-01", value: 1200 },
+      file_path: file("r.png", PNG),
+    });
+
+    expect(api.upload.mock.calls[0][1]).toBe(`${BASE}/t9/receipts`);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Transaction t9 was created");
+    expect(result.content[0].text).toContain('expense_add_my_receipt (transaction_id: "t9")');
+  });
+
+  it("streams a downloaded receipt to the download directory", async () => {
+    const api = {
+      getStream: vi.fn().mockResolvedValue({
+        body: new Response(PNG).body,
+        contentType: "image/png",
+        contentLength: PNG.length,
+      }),
+    };
+    const { handler } = setup(api);
+
+    const result = await handler("expense_download_my_receipt")({
+      transaction_id: "t1",
+      receipt_id: "r1",
+      embed: true,
+    });
+
+    const filePath = join(dir, "downloads", "receipt_t1_r1.png");
+    expect(api.getStream).toHaveBeenCalledWith(`${BASE}/t1/receipts/r1`);
+    expect(readFileSync(filePath)).toEqual(PNG);
+    expect(result.content[0].text).toContain(`saved to ${filePath}`);
+    expect(result.content[1].resource).toMatchObject({
+      mimeType: "image/png",
+      blob: PNG.toString("base64"),
+    });
+  });
+
+  it("leaves no partial file behind when a download fails", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(PNG));
+        controller.error(new Error("connection reset"));
+      },
+    });
+    const api = { getStream: vi.fn().mockResolvedValue({ body, contentType: "image/png" }) };
+    const { handler } = setup(api);
+
+    const result = await handler("expense_download_my_receipt")({
+      transaction_id: "t1",
+      receipt_id: "r1",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(existsSync(join(dir, "downloads", "receipt_t1_r1.png"))).toBe(false);
+    expect(readdirSync(join(dir, "downloads"))).toEqual([]);
+  });
+});
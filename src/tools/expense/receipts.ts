@@ -0,0 +1,288 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createWriteStream } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, realpath, rename, rm, stat } from "node:fs/promises";
+import { basename, join, resolve, sep } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { pathToFileURL } from "node:url";
+import type { MfApiClient } from "../../client/mf-api-client.js";
+import type { OfficeResolver } from "../../client/office-resolver.js";
+import { EXPENSE_BASE_URL } from "../../types/expense.js";
+import { withErrorHandling, type ToolResult } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { newTransactionSchema } from "./transactions.js";
+
+/** Largest receipt file accepted for upload. */
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Receipt types accepted for upload, recognized by the file's leading
+ * bytes rather than its extension.
+ */
+const RECEIPT_TYPES = [
+  { mimeType: "image/jpeg", extension: ".jpg", magic: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/png", extension: ".png", magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: "application/pdf", extension: ".pdf", magic: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+] as const;
+
+/**
+ * A receipt file that passed local validation.
+ *
+ * @property filename - The file's base name, sent as the upload file name
+ * @property mimeType - The detected media type
+ * @property data     - The file contents
+ */
+export interface ReceiptFile {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * Reads a receipt file and checks it before anything is uploaded.
+ *
+ * Only files inside `uploadDir` are accepted, after resolving symbolic
+ * links, so a client (in HTTP mode, a remote one) cannot make the server
+ * read arbitrary files on its host.
+ *
+ * @param filePath  - Path of a JPEG, PNG or PDF file, absolute or relative to `uploadDir`
+ * @param uploadDir - Directory receipts may be uploaded from
+ * @returns The validated file
+ * @throws {Error} If `uploadDir` does not exist, the path is outside it or
+ *   not a file, the file is empty or larger than `MAX_RECEIPT_BYTES`, or its
+ *   contents are not JPEG, PNG or PDF
+ */
+export async function readReceiptFile(filePath: string, uploadDir: string): Promise<ReceiptFile> {
+  let root: string;
+  try {
+    root = await realpath(uploadDir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    throw new Error(
+      `Upload directory ${uploadDir} does not exist. Create it and put receipts there, or set MF_UPLOAD_DIR.`
+    );
+  }
+  const realPath = await realpath(resolve(uploadDir, filePath));
+  if (!realPath.startsWith(root.endsWith(sep) ? root : root + sep)) {
+    throw new Error(`Receipts can only be uploaded from ${uploadDir} (set MF_UPLOAD_DIR to change it): ${filePath}`);
+  }
+  const info = await stat(realPath);
+  if (!info.isFile()) throw new Error(`Not a file: ${filePath}`);
+  if (info.size === 0) throw new Error(`Receipt file is empty: ${filePath}`);
+  if (info.size > MAX_RECEIPT_BYTES) {
+    throw new Error(
+      `Receipt file is ${(info.size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_RECEIPT_BYTES / 1024 / 1024} MB: ${filePath}`
+    );
+  }
+  const data = await readFile(realPath);
+  const type = RECEIPT_TYPES.find((t) => t.magic.every((byte, i) => data[i] === byte));
+  if (!type) {
+    throw new Error(`Unsupported receipt file (only JPEG, PNG and PDF are accepted): ${filePath}`);
+  }
+  return { filename: basename(filePath), mimeType: type.mimeType, data };
+}
+
+/** Builds the multipart form for uploading a receipt. */
+function receiptForm(file: ReceiptFile): FormData {
+  const form = new FormData();
+  form.append("receipt", new Blob([new Uint8Array(file.data)], { type: file.mimeType }), file.filename);
+  return form;
+}
+
+/** Describes a receipt upload for dry runs, without the file contents. */
+function receiptPreview(file: ReceiptFile): Record<string, unknown> {
+  return { receipt: { filename: file.filename, type: file.mimeType, size: file.data.length } };
+}
+
+/** The receipts collection of one of the current user's transactions. */
+function receiptsUrl(officeId: string, transactionId: string): string {
+  return `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions/${transactionId}/receipts`;
+}
+
+/** Keeps only characters that are safe in a file name. */
+function safeName(value: string): string {
+  return value.replace(/[^\w.-]+/g, "-");
+}
+
+/**
+ * Registers tools for uploading, listing and downloading receipts of the
+ * current user's expense transactions.
+ *
+ * Uploads are read from `uploadDir` and validated locally first (see
+ * `readReceiptFile`); downloads are saved under `downloadDir`.
+ *
+ * @param server      - The MCP server instance
+ * @param api         - The MF API client with auto-auth
+ * @param offices     - Resolves the office when office_id is omitted
+ * @param downloadDir - Directory downloaded receipts are saved to
+ * @param uploadDir   - Directory receipts may be uploaded from
+ */
+export function registerExpenseReceiptTools(
+  server: McpServer,
+  api: MfApiClient,
+  offices: OfficeResolver,
+  downloadDir: string,
+  uploadDir: string
+): void {
+  server.registerTool(
+    "expense_list_my_receipts",
+    {
+      description: "List the receipts attached to one of the current user's expense transactions.",
+      inputSchema: z.object({
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        transaction_id: z.string().describe("The transaction ID"),
+      }),
+    },
+    withErrorHandling(async ({ office_id, transaction_id }) => {
+      const officeId = await offices.resolve(office_id);
+      const data = await api.get(receiptsUrl(officeId, transaction_id));
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    })
+  );
+
+  server.registerTool(
+    "expense_download_my_receipt",
+    {
+      description:
+        "Download a receipt of one of the current user's expense transactions and save it locally. Returns the file path, and optionally the file itself as an embedded resource.",
+      inputSchema: z.object({
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        transaction_id: z.string().describe("The transaction ID"),
+        receipt_id: z.string().describe("The receipt ID (see expense_list_my_receipts)"),
+        embed: z
+          .boolean()
+          .optional()
+          .describe("Also return the file as an embedded resource (default: false)"),
+      }),
+    },
+    withErrorHandling(async ({ office_id, transaction_id, receipt_id, embed }) => {
+      const officeId = await offices.resolve(office_id);
+      const { body, contentType } = await api.getStream(
+        `${receiptsUrl(officeId, transaction_id)}/${receipt_id}`
+      );
+      const mimeType = contentType?.split(";")[0].trim();
+      const type = RECEIPT_TYPES.find((t) => t.mimeType === mimeType);
+
+      await mkdir(downloadDir, { recursive: true, mode: 0o700 });
+      const filePath = join(
+        downloadDir,
+        `receipt_${safeName(transaction_id)}_${safeName(receipt_id)}${type?.extension ?? ""}`
+      );
+      // Stream to a temporary name so a failed download leaves no partial receipt
+      const tempPath = `${filePath}.${randomUUID()}.part`;
+      try {
+        await pipeline(
+          Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+          createWriteStream(tempPath, { mode: 0o600, flags: "wx" })
+        );
+        await rename(tempPath, filePath);
+      } catch (err) {
+        await rm(tempPath, { force: true });
+        throw err;
+      }
+
+      const { size } = await stat(filePath);
+      const result: ToolResult = {
+        content: [
+          {
+            type: "text" as const,
+            text: `Receipt ${receipt_id} saved to ${filePath} (${Math.ceil(size / 1024)} KB).`,
+          },
+        ],
+      };
+      if (embed) {
+        result.content.push({
+          type: "resource" as const,
+          resource: {
+            uri: pathToFileURL(filePath).href,
+            mimeType: mimeType || "application/octet-stream",
+            blob: (await readFile(filePath)).toString("base64"),
+          },
+        });
+      }
+      return result;
+    })
+  );
+
+  server.registerTool(
+    "expense_add_my_receipt",
+    {
+      description: `Upload a receipt (JPEG, PNG or PDF, up to ${MAX_RECEIPT_BYTES / 1024 / 1024} MB) from the upload directory and attach it to one of the current user's existing expense transactions.`,
+      inputSchema: z.object({
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        transaction_id: z.string().describe("The transaction to attach the receipt to"),
+        file_path: z.string().describe("Path of the receipt file, absolute or relative to the upload directory"),
+        ...dryRunShape,
+      }),
+    },
+    withErrorHandling(async ({ office_id, transaction_id, file_path, dry_run }) => {
+      const file = await readReceiptFile(file_path, uploadDir);
+      const officeId = await offices.resolve(office_id);
+      const url = receiptsUrl(officeId, transaction_id);
+      if (dry_run) return dryRunResult("POST", url, receiptPreview(file));
+      const data = await api.upload("POST", url, receiptForm(file));
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    })
+  );
+
+  server.registerTool(
+    "expense_create_my_transaction_with_receipt",
+    {
+      description: `Create a new personal expense transaction and attach a receipt (JPEG, PNG or PDF, up to ${MAX_RECEIPT_BYTES / 1024 / 1024} MB) from the upload directory. The file is checked before the transaction is created.`,
+      inputSchema: z.object({
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        ex_transaction: newTransactionSchema,
+        file_path: z.string().describe("Path of the receipt file, absolute or relative to the upload directory"),
+        ...dryRunShape,
+      }),
+    },
+    withErrorHandling(async ({ office_id, ex_transaction, file_path, dry_run }) => {
+      const file = await readReceiptFile(file_path, uploadDir);
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions`;
+      const body = { ex_transaction };
+      if (dry_run) {
+        return {
+          content: [
+            ...dryRunResult("POST", url, body).content,
+            ...dryRunResult("POST", receiptsUrl(officeId, "<new transaction id>"), receiptPreview(file))
+              .content,
+          ],
+        };
+      }
+
+      const created = await api.post<Record<string, unknown>>(url, body);
+      const transaction =
+        (created?.ex_transaction as Record<string, unknown> | undefined) ?? created ?? {};
+      if (transaction.id === undefined || transaction.id === null) {
+        throw new Error(
+          `The transaction was created, but the response has no ID to attach the receipt to:\n${JSON.stringify(created, null, 2)}`
+        );
+      }
+      const transactionId = String(transaction.id);
+      try {
+        const receipt = await api.upload("POST", receiptsUrl(officeId, transactionId), receiptForm(file));
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify(created, null, 2) },
+            { type: "text" as const, text: JSON.stringify(receipt, null, 2) },
+          ],
+        };
+      } catch (error) {
+        // The transaction exists now; say so instead of inviting a duplicate
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Transaction ${transactionId} was created, but uploading the receipt failed: ${error instanceof Error ? error.message : String(error)}. Retry with expense_add_my_receipt (transaction_id: "${transactionId}").`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    })
+  );
+}
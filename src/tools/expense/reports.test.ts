@@ -5,8 +5,15 @@ describe("registerExpenseReportTools", () => {
   it("registers all expense report and approval tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockOffices = {} as any;
+    const mockConfirmations = {} as any;
 
-    registerExpenseReportTools(mockServer as any, mockApiClient);
+    registerExpenseReportTools(
+      mockServer as any,
+      mockApiClient,
+      mockOffices,
+      mockConfirmations
+    );
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
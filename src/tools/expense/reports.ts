@@ -1,7 +1,13 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
+import type { OfficeResolver } from "../../client/office-resolver.js";
 import { EXPENSE_BASE_URL } from "../../types/expense.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers expense report and approval workflow tools.
@@ -11,7 +17,9 @@ import { EXPENSE_BASE_URL } from "../../types/expense.js";
  */
 export function registerExpenseReportTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  offices: OfficeResolver,
+  confirmations: ConfirmationStore
 ): void {
   // ── My Reports ───────────────────────────────────────────
 
@@ -20,19 +28,24 @@ export function registerExpenseReportTools(
     {
       description: "List the current user's expense reports.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_reports`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_reports`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_reports", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -40,16 +53,17 @@ export function registerExpenseReportTools(
     {
       description: "Get details of one of the current user's expense reports.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("The report ID"),
       }),
     },
-    async ({ office_id, id }) => {
+    withErrorHandling(async ({ office_id, id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_reports/${id}`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_reports/${id}`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   // ── Organization Reports ─────────────────────────────────
@@ -59,19 +73,24 @@ export function registerExpenseReportTools(
     {
       description: "List all expense reports in the office (admin).",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_reports`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_reports`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_reports", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -79,16 +98,17 @@ export function registerExpenseReportTools(
     {
       description: "Get details of an expense report (admin).",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("The report ID"),
       }),
     },
-    async ({ office_id, id }) => {
+    withErrorHandling(async ({ office_id, id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_reports/${id}`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_reports/${id}`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   // ── Report Transactions ──────────────────────────────────
@@ -98,20 +118,25 @@ export function registerExpenseReportTools(
     {
       description: "List all transactions within a specific expense report.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         report_id: z.string().describe("The report ID"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, report_id, page }) => {
+    withErrorHandling(async ({ office_id, report_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_reports/${report_id}/ex_transactions`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_reports/${report_id}/ex_transactions`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_transactions", { format, fields });
+    })
   );
 
   // ── Approvals ────────────────────────────────────────────
@@ -122,19 +147,24 @@ export function registerExpenseReportTools(
       description:
         "List expense reports pending the current user's approval.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields }) => {
+      const officeId = await offices.resolve(office_id);
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/approving_ex_reports`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/approving_ex_reports`,
+        params,
+        { all_pages, max_items }
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_reports", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -143,33 +173,50 @@ export function registerExpenseReportTools(
       description:
         "Approve an expense report that is pending the current user's approval.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         report_id: z.string().describe("The report ID to approve"),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, report_id }) => {
-      const data = await api.post(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/approving_ex_reports/${report_id}/approve`
-      );
+    withErrorHandling(async ({ office_id, report_id, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/approving_ex_reports/${report_id}/approve`;
+      if (dry_run) return dryRunResult("POST", url);
+      const data = await api.post(url);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
     "expense_reject_report",
     {
       description:
-        "Reject (disapprove) an expense report that is pending the current user's approval.",
+        "Reject (disapprove) an expense report that is pending the current user's approval. The first call only previews the report and returns a confirmation_token; call again with that token to reject it.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         report_id: z.string().describe("The report ID to reject"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, report_id }) => {
-      const data = await api.post(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/approving_ex_reports/${report_id}/disapprove`
-      );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    withErrorHandling(async ({ office_id, report_id, confirmation_token, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/approving_ex_reports/${report_id}/disapprove`;
+      if (dry_run) return dryRunResult("POST", url);
+      return confirmOrPreview(confirmations, {
+        tool: "expense_reject_report",
+        action: `reject report ${report_id}`,
+        target: { office_id: officeId, report_id },
+        token: confirmation_token,
+        preview: () =>
+          api.get(
+            `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_reports/${report_id}`
+          ),
+        execute: async () => {
+          const data = await api.post(url);
+          return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+        },
+      });
+    })
   );
 }
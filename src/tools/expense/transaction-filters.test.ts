@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { transactionFilter, transactionFilterParams } from "./transaction-filters.js";
+
+const transactions = [
+  { id: 1, recognized_at: "2026-09-03", value: 62000, ex_item_id: 10, dept_id: 5, ex_report: { id: 7, status: "approved" } },
+  { id: 2, recognized_at: "2026-09-20", value: 12000, ex_item: { id: 10 }, dept_id: 5, ex_report_id: null },
+  { id: 3, recognized_at: "2026-10-01", value: "80000", ex_item_id: 11, dept_id: 6, office_member_id: 99 },
+];
+
+function ids(filter: ((item: unknown) => boolean) | undefined): number[] {
+  return transactions.filter(filter!).map((t) => t.id);
+}
+
+describe("transactionFilter", () => {
+  it("returns undefined when no filter is set", () => {
+    expect(transactionFilter({})).toBeUndefined();
+  });
+
+  it("filters by date range and amount", () => {
+    expect(
+      ids(
+        transactionFilter({
+          recognized_at_from: "2026-09-01",
+          recognized_at_to: "2026-09-30",
+          amount_min: 50000,
+        })
+      )
+    ).toEqual([1]);
+    expect(ids(transactionFilter({ amount_max: 70000 }))).toEqual([1, 2]);
+  });
+
+  it("matches IDs given directly or as nested objects", () => {
+    expect(ids(transactionFilter({ ex_item_id: "10" }))).toEqual([1, 2]);
+    expect(ids(transactionFilter({ dept_id: "6", office_member_id: "99" }))).toEqual([3]);
+  });
+
+  it("filters by report status, including unreported transactions", () => {
+    expect(ids(transactionFilter({ report_status: "approved" }))).toEqual([1]);
+    expect(ids(transactionFilter({ report_status: "unreported" }))).toEqual([2, 3]);
+  });
+
+  it("rejects empty ranges", () => {
+    expect(() =>
+      transactionFilter({ recognized_at_from: "2026-10-01", recognized_at_to: "2026-09-01" })
+    ).toThrow("recognized_at_from (2026-10-01) is after recognized_at_to (2026-09-01).");
+    expect(() => transactionFilter({ amount_min: 10, amount_max: 5 })).toThrow(
+      "amount_min (10) is greater than amount_max (5)."
+    );
+  });
+});
+
+describe("transactionFilterParams", () => {
+  it("passes only API-supported filters as query parameters", () => {
+    expect(
+      transactionFilterParams({ recognized_at_from: "2026-09-01", amount_min: 100, dept_id: "5" })
+    ).toEqual({ recognized_at_from: "2026-09-01" });
+  });
+});
@@ -0,0 +1,154 @@
+import { z } from "zod";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Report status value matching transactions that are not on any report. */
+export const UNREPORTED = "unreported";
+
+/** Input schema fields for filtering expense transaction lists. */
+export const transactionFilterShape = {
+  recognized_at_from: z
+    .string()
+    .regex(DATE, "Use YYYY-MM-DD")
+    .optional()
+    .describe("Only transactions recognized on or after this date (YYYY-MM-DD)"),
+  recognized_at_to: z
+    .string()
+    .regex(DATE, "Use YYYY-MM-DD")
+    .optional()
+    .describe("Only transactions recognized on or before this date (YYYY-MM-DD)"),
+  amount_min: z.number().optional().describe("Minimum amount in JPY (inclusive)"),
+  amount_max: z.number().optional().describe("Maximum amount in JPY (inclusive)"),
+  ex_item_id: z.string().optional().describe("Only this category (expense item) ID"),
+  dept_id: z.string().optional().describe("Only this department ID"),
+  project_code_id: z.string().optional().describe("Only this project ID"),
+  report_status: z
+    .string()
+    .optional()
+    .describe(
+      `Only transactions whose expense report has this status (e.g. approved), or "${UNREPORTED}" for transactions not on a report`
+    ),
+};
+
+/** Input schema field for filtering organization-wide lists by member. */
+export const memberFilterShape = {
+  office_member_id: z.string().optional().describe("Only transactions of this office member ID"),
+};
+
+/**
+ * Filters accepted by the transaction list tools.
+ *
+ * Every field is optional; omitted fields do not filter.
+ */
+export interface TransactionFilters {
+  recognized_at_from?: string;
+  recognized_at_to?: string;
+  amount_min?: number;
+  amount_max?: number;
+  ex_item_id?: string;
+  dept_id?: string;
+  project_code_id?: string;
+  report_status?: string;
+  office_member_id?: string;
+}
+
+/**
+ * Filters the list endpoints accept as query parameters, mapped to the
+ * parameter name. Sending them narrows the pages fetched; every filter is
+ * still applied client-side, so results are exact either way.
+ */
+const API_FILTER_PARAMS: Partial<Record<keyof TransactionFilters, string>> = {
+  recognized_at_from: "recognized_at_from",
+  recognized_at_to: "recognized_at_to",
+};
+
+/**
+ * Builds the query parameters for the filters the API supports.
+ *
+ * @param filters - The tool's filter arguments
+ * @returns Query parameters to send with every page request
+ */
+export function transactionFilterParams(filters: TransactionFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [field, param] of Object.entries(API_FILTER_PARAMS)) {
+    const value = filters[field as keyof TransactionFilters];
+    if (value !== undefined) params[param] = String(value);
+  }
+  return params;
+}
+
+function asRecord(v: unknown): Record<string, unknown> {
+  return typeof v === "object" && v !== null ? (v as Record<string, unknown>) : {};
+}
+
+/** Reads `<name>_id`, falling back to the `id` of a nested `<name>` object. */
+function idOf(record: Record<string, unknown>, name: string): string | undefined {
+  const id = record[`${name}_id`] ?? asRecord(record[name]).id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+/** Reads the transaction's report status, or undefined if it has no report. */
+function reportStatusOf(record: Record<string, unknown>): string | undefined {
+  const report = asRecord(record.ex_report);
+  const status = report.status ?? record.ex_report_status;
+  if (status !== undefined && status !== null) return String(status);
+  return undefined;
+}
+
+/**
+ * Builds a predicate that keeps transactions matching every given filter.
+ *
+ * Reads the fields of an `ex_transaction` record (`recognized_at`, `value`,
+ * `ex_item_id`, ...), accepting nested objects such as `ex_item: { id }` as
+ * well. A record lacking a filtered field does not match.
+ *
+ * @param filters - The tool's filter arguments
+ * @returns The predicate, or undefined when no filter is set
+ * @throws {Error} If the date or amount range is empty
+ */
+export function transactionFilter(
+  filters: TransactionFilters
+): ((item: unknown) => boolean) | undefined {
+  const {
+    recognized_at_from: from,
+    recognized_at_to: to,
+    amount_min: min,
+    amount_max: max,
+    report_status: reportStatus,
+  } = filters;
+  if (from && to && from > to) {
+    throw new Error(`recognized_at_from (${from}) is after recognized_at_to (${to}).`);
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error(`amount_min (${min}) is greater than amount_max (${max}).`);
+  }
+  const ids = (["ex_item", "dept", "project_code", "office_member"] as const).filter(
+    (name) => filters[`${name}_id`] !== undefined
+  );
+  const ranged = from || to || min !== undefined || max !== undefined;
+  if (!ranged && !reportStatus && ids.length === 0) return undefined;
+
+  return (item) => {
+    const record = asRecord(item);
+    if (from || to) {
+      const date = typeof record.recognized_at === "string" ? record.recognized_at.slice(0, 10) : "";
+      if (!date || (from && date < from) || (to && date > to)) return false;
+    }
+    if (min !== undefined || max !== undefined) {
+      const value = Number(record.value);
+      if (record.value === undefined || record.value === null || Number.isNaN(value)) return false;
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) return false;
+    }
+    for (const name of ids) {
+      if (idOf(record, name) !== filters[`${name}_id`]) return false;
+    }
+    if (reportStatus) {
+      const matches =
+        reportStatus === UNREPORTED
+          ? idOf(record, "ex_report") === undefined
+          : reportStatusOf(record) === reportStatus;
+      if (!matches) return false;
+    }
+    return true;
+  };
+}
@@ -5,13 +5,23 @@ describe("registerExpenseTransactionTools", () => {
   it("registers all expense transaction tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockOffices = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerExpenseTransactionTools(mockServer as any, mockApiClient);
+    registerExpenseTransactionTools(
+      mockServer as any,
+      mockApiClient,
+      mockOffices,
+      mockConfirmations,
+      mockUndo
+    );
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
     );
     expect(toolNames).toContain("expense_list_offices");
+    expect(toolNames).toContain("expense_set_default_office");
     expect(toolNames).toContain("expense_get_me");
     expect(toolNames).toContain("expense_list_my_transactions");
     expect(toolNames).toContain("expense_create_my_transaction");
@@ -19,6 +29,6 @@ describe("registerExpenseTransactionTools", () => {
     expect(toolNames).toContain("expense_update_my_transaction");
     expect(toolNames).toContain("expense_delete_my_transaction");
     expect(toolNames).toContain("expense_list_transactions");
-    expect(mockServer.registerTool).toHaveBeenCalledTimes(8);
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(9);
   });
 });
@@ -1,20 +1,49 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
+import type { OfficeResolver } from "../../client/office-resolver.js";
 import { EXPENSE_BASE_URL } from "../../types/expense.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
+import {
+  memberFilterShape,
+  transactionFilter,
+  transactionFilterParams,
+  transactionFilterShape,
+} from "./transaction-filters.js";
+
+/** Fields of a new personal expense transaction. */
+export const newTransactionSchema = z.object({
+  is_income: z.boolean().optional().describe("Whether this is income (default: false)"),
+  recognized_at: z.string().describe("Date of the expense (YYYY-MM-DD)"),
+  value: z.number().describe("Amount in JPY"),
+  memo: z.string().optional().describe("Memo / description"),
+  ex_item_id: z.string().optional().describe("Category (expense item) ID"),
+  dept_id: z.string().optional().describe("Department ID"),
+  project_code_id: z.string().optional().describe("Project ID"),
+  excise_id: z.string().optional().describe("Tax classification ID"),
+});
 
 /**
  * Registers expense transaction tools on the MCP server.
  *
- * Covers office listing, current user info, personal transaction CRUD,
- * and organization-wide transaction listing.
+ * Covers office listing and default office selection, current user info,
+ * personal transaction CRUD, and organization-wide transaction listing.
  *
  * @param server - The MCP server instance
  * @param api - The MF API client with auto-auth
+ * @param offices - Resolves the office when office_id is omitted
  */
 export function registerExpenseTransactionTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  offices: OfficeResolver,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   // ── Offices ──────────────────────────────────────────────
 
@@ -22,12 +51,46 @@ export function registerExpenseTransactionTools(
     "expense_list_offices",
     {
       description: "List all organizations (offices) the authenticated user belongs to.",
-      inputSchema: z.object({}),
+      inputSchema: z.object({
+        ...outputShape,
+      }),
     },
-    async () => {
+    withErrorHandling(async ({ format, fields }) => {
       const data = await api.get(`${EXPENSE_BASE_URL}/v1/offices`);
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "offices", { format, fields });
+    })
+  );
+
+  server.registerTool(
+    "expense_set_default_office",
+    {
+      description:
+        "Set the default office used by Expense tools when office_id is omitted. Lasts until the server restarts.",
+      inputSchema: z.object({
+        office_id: z.string().describe("The office ID to use by default"),
+      }),
+    },
+    withErrorHandling(async ({ office_id }) => {
+      const available = await offices.listOffices();
+      const office = available.find((o) => o.id === office_id);
+      if (!office) {
+        const choices = available.map((o) => o.id).join(", ");
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Office ${office_id} is not accessible. Available offices: ${choices || "(none)"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      offices.setDefault(office.id);
+      const label = office.name ? `${office.id} (${office.name})` : office.id;
+      return {
+        content: [{ type: "text" as const, text: `Default office set to ${label}.` }],
+      };
+    })
   );
 
   // ── Current user ─────────────────────────────────────────
@@ -37,15 +100,16 @@ export function registerExpenseTransactionTools(
     {
       description: "Get the current authenticated user's information in the specified office.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office (organization) ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
       }),
     },
-    async ({ office_id }) => {
+    withErrorHandling(async ({ office_id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v2/offices/${office_id}/me`
+        `${EXPENSE_BASE_URL}/v2/offices/${officeId}/me`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   // ── My Transactions (personal) ───────────────────────────
@@ -54,21 +118,29 @@ export function registerExpenseTransactionTools(
     "expense_list_my_transactions",
     {
       description:
-        "List the current user's expense transactions. Supports pagination via page parameter.",
+        "List the current user's expense transactions. Supports pagination via page parameter, and filters by date range, amount, category, department, project and report status (filters search across all pages).",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number (default: 1)"),
+        ...transactionFilterShape,
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page }) => {
-      const params: Record<string, string> = {};
+    withErrorHandling(async ({ office_id, page, all_pages, max_items, format, fields, ...filters }) => {
+      const filter = transactionFilter(filters);
+      const officeId = await offices.resolve(office_id);
+      const params = transactionFilterParams(filters);
       if (page) params.page = String(page);
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_transactions`,
-        params
+      const data = await fetchList(
+        api,
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions`,
+        params,
+        { all_pages, max_items },
+        filter
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return formatListResult(data, "ex_transactions", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -77,26 +149,19 @@ export function registerExpenseTransactionTools(
       description:
         "Create a new personal expense transaction. Requires at minimum the amount and recognized_at date.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
-        ex_transaction: z.object({
-          is_income: z.boolean().optional().describe("Whether this is income (default: false)"),
-          recognized_at: z.string().describe("Date of the expense (YYYY-MM-DD)"),
-          value: z.number().describe("Amount in JPY"),
-          memo: z.string().optional().describe("Memo / description"),
-          ex_item_id: z.string().optional().describe("Category (expense item) ID"),
-          dept_id: z.string().optional().describe("Department ID"),
-          project_code_id: z.string().optional().describe("Project ID"),
-          excise_id: z.string().optional().describe("Tax classification ID"),
-        }),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
+        ex_transaction: newTransactionSchema,
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, ex_transaction }) => {
-      const data = await api.post(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_transactions`,
-        { ex_transaction }
-      );
+    withErrorHandling(async ({ office_id, ex_transaction, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions`;
+      const body = { ex_transaction };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -104,16 +169,17 @@ export function registerExpenseTransactionTools(
     {
       description: "Get details of one of the current user's expense transactions.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("The transaction ID"),
       }),
     },
-    async ({ office_id, id }) => {
+    withErrorHandling(async ({ office_id, id }) => {
+      const officeId = await offices.resolve(office_id);
       const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_transactions/${id}`
+        `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions/${id}`
       );
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -121,7 +187,7 @@ export function registerExpenseTransactionTools(
     {
       description: "Update one of the current user's expense transactions.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("The transaction ID to update"),
         ex_transaction: z.object({
           is_income: z.boolean().optional(),
@@ -133,35 +199,67 @@ export function registerExpenseTransactionTools(
           project_code_id: z.string().optional(),
           excise_id: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id, ex_transaction }) => {
-      const data = await api.put(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_transactions/${id}`,
-        { ex_transaction }
+    withErrorHandling(async ({ office_id, id, ex_transaction, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions/${id}`;
+      const body = { ex_transaction };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "expense_update_my_transaction", action: "update", resource: "ex_transaction", url },
+        () => api.put(url, body)
       );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "expense_delete_my_transaction",
     {
       description:
-        "Delete one of the current user's expense transactions. This action is irreversible.",
+        "Delete one of the current user's expense transactions. This action is irreversible. The first call only previews the transaction and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         id: z.string().describe("The transaction ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ office_id, id }) => {
-      await api.delete(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/me/ex_transactions/${id}`
-      );
-      return {
-        content: [{ type: "text" as const, text: `Transaction ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ office_id, id, confirmation_token, dry_run }) => {
+      const officeId = await offices.resolve(office_id);
+      const url = `${EXPENSE_BASE_URL}/v1/offices/${officeId}/me/ex_transactions/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "expense_delete_my_transaction",
+        action: `delete transaction ${id}`,
+        target: { office_id: officeId, id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "expense_delete_my_transaction", action: "delete", resource: "ex_transaction", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Transaction ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 
   // ── Organization-wide transactions ───────────────────────
@@ -170,22 +268,33 @@ export function registerExpenseTransactionTools(
     "expense_list_transactions",
     {
       description:
-        "List all expense transactions in the office (admin). Supports pagination and query.",
+        "List all expense transactions in the office (admin). Supports pagination, query, and filters by date range, amount, category, department, project, member and report status (filters search across all pages).",
       inputSchema: z.object({
-        office_id: z.string().describe("The office ID"),
+        office_id: z.string().optional().describe("The office ID (default: the default office)"),
         page: z.number().optional().describe("Page number (default: 1)"),
         query: z.string().optional().describe("Search keyword"),
+        ...transactionFilterShape,
+        ...memberFilterShape,
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ office_id, page, query }) => {
-      const params: Record<string, string> = {};
-      if (page) params.page = String(page);
-      if (query) params.query = query;
-      const data = await api.get(
-        `${EXPENSE_BASE_URL}/v1/offices/${office_id}/ex_transactions`,
-        params
-      );
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    withErrorHandling(
+      async ({ office_id, page, query, all_pages, max_items, format, fields, ...filters }) => {
+        const filter = transactionFilter(filters);
+        const officeId = await offices.resolve(office_id);
+        const params = transactionFilterParams(filters);
+        if (page) params.page = String(page);
+        if (query) params.query = query;
+        const data = await fetchList(
+          api,
+          `${EXPENSE_BASE_URL}/v1/offices/${officeId}/ex_transactions`,
+          params,
+          { all_pages, max_items },
+          filter
+        );
+        return formatListResult(data, "ex_transactions", { format, fields });
+      }
+    )
   );
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { renderCsv, renderMarkdownTable, renderTable } from "./formatter.js";
+
+describe("renderTable", () => {
+  it("aligns columns", () => {
+    const table = renderTable([
+      { id: "1", name: "A" },
+      { id: "22", name: "Longer" },
+    ]);
+    expect(table.split("\n")).toEqual([
+      "id  name",
+      "--  ------",
+      "1   A",
+      "22  Longer",
+    ]);
+  });
+
+  it("counts full-width characters as two columns", () => {
+    const table = renderTable([
+      { name: "株式会社サンプル", memo: "ｶﾌﾞｼｷ" },
+      { name: "Acme", memo: "交通費" },
+    ]);
+    expect(table.split("\n")).toEqual([
+      "name              memo",
+      "----------------  ------",
+      "株式会社サンプル  ｶﾌﾞｼｷ",
+      "Acme              交通費",
+    ]);
+  });
+});
+
+describe("renderMarkdownTable", () => {
+  it("renders a header, separator and escaped rows", () => {
+    const table = renderMarkdownTable([
+      { id: "r1", title: "出張 | 大阪", memo: "line1\nline2" },
+      { id: "r2", status: "approved" },
+    ]);
+    expect(table.split("\n")).toEqual([
+      "| id | title | memo | status |",
+      "| --- | --- | --- | --- |",
+      "| r1 | 出張 \\| 大阪 | line1<br>line2 |  |",
+      "| r2 |  |  | approved |",
+    ]);
+  });
+
+  it("handles empty results", () => {
+    expect(renderMarkdownTable([])).toBe("_No records._");
+  });
+});
+
+describe("renderCsv", () => {
+  it("quotes commas, quotes and line breaks per RFC 4180", () => {
+    const csv = renderCsv([
+      { name: "株式会社テスト, 東京", note: 'He said "hi"', memo: "a\nb", value: 1000 },
+      { name: "交通費", note: null, memo: "", value: 0 },
+    ]);
+    expect(csv).toBe(
+      [
+        "name,note,memo,value",
+        '"株式会社テスト, 東京","He said ""hi""","a\nb",1000',
+        "交通費,,,0",
+      ].join("\r\n")
+    );
+  });
+
+  it("returns an empty string when there are no records", () => {
+    expect(renderCsv([])).toBe("");
+  });
+});
@@ -0,0 +1,165 @@
+/** Tabular output formats rendered by this module. */
+export const TABULAR_FORMATS = ["table", "markdown", "csv"] as const;
+
+/** A tabular output format. */
+export type TabularFormat = (typeof TABULAR_FORMATS)[number];
+
+/** Renders a cell value as a single-line string. */
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).replace(/\r?\n/g, " ");
+}
+
+/** Collects the union of keys across rows, preserving first-seen order. */
+export function columnsOf(rows: Record<string, unknown>[]): string[] {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Code point ranges of East Asian wide and fullwidth characters (kanji,
+ * kana, Hangul, fullwidth forms, emoji), which take two terminal columns.
+ * Halfwidth katakana (U+FF61-U+FF9F) is deliberately not included.
+ */
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x1f300, 0x1f64f],
+  [0x1f900, 0x1f9ff],
+  [0x20000, 0x3fffd],
+];
+
+/** Combining marks and format characters, which take no column of their own. */
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}]$/u;
+
+/** Returns the number of terminal columns a string takes. */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (ZERO_WIDTH.test(char)) continue;
+    const code = char.codePointAt(0) ?? 0;
+    width += WIDE_RANGES.some(([from, to]) => code >= from && code <= to) ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * Renders rows as a fixed-width plain-text table.
+ *
+ * Columns are sized by display width, so full-width Japanese text lines up
+ * in a terminal.
+ *
+ * @param rows - Flat records (as returned by projectRecord)
+ * @returns The table, or "(no records)" when empty
+ */
+export function renderTable(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "(no records)";
+  const columns = columnsOf(rows);
+  const cells = rows.map((row) => columns.map((c) => cellText(row[c])));
+  const widths = columns.map((c, i) =>
+    Math.max(displayWidth(c), ...cells.map((r) => displayWidth(r[i])))
+  );
+  const line = (values: string[]) =>
+    values
+      .map((v, i) => v + " ".repeat(widths[i] - displayWidth(v)))
+      .join("  ")
+      .trimEnd();
+  return [
+    line(columns),
+    line(widths.map((w) => "-".repeat(w))),
+    ...cells.map(line),
+  ].join("\n");
+}
+
+/** Escapes a value for use inside a Markdown table cell. */
+function markdownCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders rows as a GitHub-flavored Markdown table.
+ *
+ * Pipes are escaped and line breaks become `<br>` so that every record
+ * stays on one table row.
+ *
+ * @param rows - Flat records
+ * @returns The Markdown table, or "_No records._" when empty
+ */
+export function renderMarkdownTable(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "_No records._";
+  const columns = columnsOf(rows);
+  const line = (values: string[]) => `| ${values.join(" | ")} |`;
+  return [
+    line(columns.map(markdownCell)),
+    line(columns.map(() => "---")),
+    ...rows.map((row) => line(columns.map((c) => markdownCell(row[c])))),
+  ].join("\n");
+}
+
+/**
+ * Quotes a value per RFC 4180.
+ *
+ * Fields containing a comma, double quote, CR or LF are wrapped in double
+ * quotes with embedded quotes doubled. Other text — including Japanese —
+ * is emitted as-is, since CSV is encoding-agnostic.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as RFC 4180 CSV with a header row and CRLF line endings.
+ *
+ * @param rows - Flat records
+ * @returns The CSV text (empty string when there are no records)
+ */
+export function renderCsv(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "";
+  const columns = columnsOf(rows);
+  return [
+    columns.map(csvCell).join(","),
+    ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(",")),
+  ].join("\r\n");
+}
+
+/**
+ * Renders rows in the given tabular format.
+ *
+ * @param rows   - Flat records
+ * @param format - `table` (plain text), `markdown` or `csv`
+ * @returns The rendered text
+ */
+export function renderRows(
+  rows: Record<string, unknown>[],
+  format: TabularFormat
+): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdownTable(rows);
+    case "csv":
+      return renderCsv(rows);
+    default:
+      return renderTable(rows);
+  }
+}
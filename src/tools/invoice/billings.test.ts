@@ -1,12 +1,26 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import { registerInvoiceBillingTools } from "./billings.js";
+import { ConfirmationStore } from "../confirmation.js";
+import { UndoStore, registerUndoTools } from "../undo.js";
 
 describe("registerInvoiceBillingTools", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
   it("registers all billing tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerInvoiceBillingTools(mockServer as any, mockApiClient);
+    registerInvoiceBillingTools(mockServer as any, mockApiClient, mockConfirmations, mockUndo);
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
@@ -17,6 +31,173 @@ describe("registerInvoiceBillingTools", () => {
     expect(toolNames).toContain("invoice_update_billing");
     expect(toolNames).toContain("invoice_delete_billing");
     expect(toolNames).toContain("invoice_add_billing_item");
-    expect(mockServer.registerTool).toHaveBeenCalledTimes(6);
+    expect(toolNames).toContain("invoice_update_billing_payment_status");
+    expect(toolNames).toContain("invoice_update_billing_posting_status");
+    expect(toolNames).toContain("invoice_send_billing_email");
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(9);
+  });
+
+  it("deletes an invoice only after the preview's confirmation token is presented", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockApiClient = {
+      get: vi.fn().mockResolvedValue({ id: "42", title: "October" }),
+      delete: vi.fn().mockResolvedValue({}),
+    } as any;
+
+    dir = mkdtempSync(join(tmpdir(), "mf-undo-"));
+    const undo = new UndoStore(join(dir, "undo.json"), () => "default");
+
+    registerInvoiceBillingTools(
+      mockServer as any,
+      mockApiClient,
+      new ConfirmationStore(),
+      undo
+    );
+    const handler = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "invoice_delete_billing"
+    )![2];
+
+    const preview = await handler({ id: "42" });
+    expect(mockApiClient.get).toHaveBeenCalledWith(
+      "https://invoice.moneyforward.com/api/v3/billings/42"
+    );
+    expect(mockApiClient.delete).not.toHaveBeenCalled();
+
+    const token = /confirmation_token: "([0-9a-f]+)"/.exec(
+      preview.content[0].text
+    )![1];
+    const result = await handler({ id: "42", confirmation_token: token });
+    expect(mockApiClient.delete).toHaveBeenCalledWith(
+      "https://invoice.moneyforward.com/api/v3/billings/42"
+    );
+    expect(result.content[0].text).toBe("Invoice 42 deleted.");
+    const [snapshot] = await undo.entries();
+    expect(snapshot).toMatchObject({
+      tool: "invoice_delete_billing",
+      action: "delete",
+      snapshot: { id: "42", title: "October" },
+    });
+    expect(result.content[1].text).toContain(snapshot.id);
+  });
+
+  it("previews invoice creation with dry_run without calling the API", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockApiClient = { post: vi.fn() } as any;
+
+    registerInvoiceBillingTools(
+      mockServer as any,
+      mockApiClient,
+      new ConfirmationStore(),
+      {} as any
+    );
+    const handler = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "invoice_create_billing"
+    )![2];
+
+    const result = await handler({
+      billing: {
+        partner_id: "p1",
+        items: [{ name: "Fee", quantity: 2, unit_price: 500, excise: "ten_percent" }],
+      },
+      dry_run: true,
+    });
+
+    expect(mockApiClient.post).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      method: "POST",
+      url: "https://invoice.moneyforward.com/api/v3/invoice_template_billings",
+      body: { billing: { partner_id: "p1" } },
+      totals: { subtotal: 1000, tax: 100, total: 1100 },
+    });
+  });
+
+  it("updates the payment status after taking an undo snapshot", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockApiClient = {
+      get: vi.fn().mockResolvedValue({ id: "42", payment_status: "未入金" }),
+      put: vi.fn().mockResolvedValue({ id: "42", payment_status: "入金済み" }),
+    } as any;
+    dir = mkdtempSync(join(tmpdir(), "mf-undo-"));
+    const undo = new UndoStore(join(dir, "undo.json"), () => "default");
+
+    registerInvoiceBillingTools(mockServer as any, mockApiClient, new ConfirmationStore(), undo);
+    const [, config, handler] = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "invoice_update_billing_payment_status"
+    )!;
+
+    expect(config.inputSchema.safeParse({ id: "42", payment_status: "paid" }).success).toBe(false);
+    const result = await handler({ id: "42", payment_status: "入金済み" });
+    expect(mockApiClient.get).toHaveBeenCalledWith("https://invoice.moneyforward.com/api/v3/billings/42");
+    expect(mockApiClient.put).toHaveBeenCalledWith(
+      "https://invoice.moneyforward.com/api/v3/billings/42/payment_status",
+      { payment_status: "入金済み" }
+    );
+    expect(result.content[1].text).toContain("mf_undo");
+  });
+
+  it("reverts a posting status change with mf_undo", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockApiClient = {
+      get: vi.fn().mockResolvedValue({ billing: { id: "42", posting_status: "未郵送" } }),
+      put: vi.fn().mockResolvedValue({ id: "42" }),
+    } as any;
+    dir = mkdtempSync(join(tmpdir(), "mf-undo-"));
+    const undo = new UndoStore(join(dir, "undo.json"), () => "default");
+
+    registerInvoiceBillingTools(mockServer as any, mockApiClient, new ConfirmationStore(), undo);
+    registerUndoTools(mockServer as any, mockApiClient, undo);
+    const handlerOf = (name: string) =>
+      mockServer.registerTool.mock.calls.find((call: any[]) => call[0] === name)![2];
+
+    await handlerOf("invoice_update_billing_posting_status")({ id: "42", posting_status: "郵送済み" });
+    await handlerOf("mf_undo")({});
+
+    expect(mockApiClient.put).toHaveBeenLastCalledWith(
+      "https://invoice.moneyforward.com/api/v3/billings/42/posting_status",
+      { posting_status: "未郵送" }
+    );
+  });
+
+  it("emails an invoice only after the recipients were previewed and confirmed", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockApiClient = {
+      get: vi.fn().mockResolvedValue({ id: "42", title: "October" }),
+      post: vi.fn().mockResolvedValue({ id: "42", email_status: "送信済み" }),
+    } as any;
+
+    registerInvoiceBillingTools(mockServer as any, mockApiClient, new ConfirmationStore(), {} as any);
+    const [, config, handler] = mockServer.registerTool.mock.calls.find(
+      (call: any[]) => call[0] === "invoice_send_billing_email"
+    )!;
+    expect(
+      config.inputSchema.safeParse({ id: "42", email: { to: ["not-an-address"] } }).success
+    ).toBe(false);
+    expect(config.inputSchema.safeParse({ id: "42", email: { to: [] } }).success).toBe(false);
+
+    const email = { to: ["billing@partner.example"], cc: ["sales@example.com"], message: "Thank you" };
+    const preview = await handler({ id: "42", email });
+    expect(preview.content[0].text).toContain(
+      "email invoice 42 to billing@partner.example, sales@example.com"
+    );
+    expect(mockApiClient.post).not.toHaveBeenCalled();
+
+    const token = /confirmation_token: "([0-9a-f]+)"/.exec(preview.content[0].text)![1];
+    const changed = await handler({
+      id: "42",
+      email: { ...email, to: ["other@example.com"] },
+      confirmation_token: token,
+    });
+    expect(changed.isError).toBe(true);
+    expect(changed.content[0].text).toContain("Invalid or expired confirmation token");
+
+    const retry = /confirmation_token: "([0-9a-f]+)"/.exec(
+      (await handler({ id: "42", email })).content[0].text
+    )![1];
+    const result = await handler({ id: "42", email, confirmation_token: retry });
+    expect(mockApiClient.post).toHaveBeenCalledWith(
+      "https://invoice.moneyforward.com/api/v3/billings/42/email",
+      { email }
+    );
+    expect(result.content[0].text).toBe("Invoice 42 sent to billing@partner.example, sales@example.com.");
   });
 });
@@ -2,6 +2,22 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
 import { INVOICE_BASE_URL } from "../../types/invoice.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
+
+/**
+ * Payment statuses accepted by the Invoice v3 payment status endpoint, as
+ * the API spells them: unset, awaiting payment, paid, unpaid (overdue) and
+ * uncollectible.
+ */
+const PAYMENT_STATUSES = ["未設定", "未入金", "入金済み", "未払い", "貸倒れ"] as const;
+
+/** Posting statuses that can be set manually: not posted and posted. */
+const POSTING_STATUSES = ["未郵送", "郵送済み"] as const;
 
 /**
  * Registers invoice (billing) CRUD and line-item tools.
@@ -11,7 +27,9 @@ import { INVOICE_BASE_URL } from "../../types/invoice.js";
  */
 export function registerInvoiceBillingTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   server.registerTool(
     "invoice_list_billings",
@@ -21,16 +39,23 @@ export function registerInvoiceBillingTools(
         page: z.number().optional().describe("Page number"),
         per_page: z.number().optional().describe("Items per page (max 100)"),
         query: z.string().optional().describe("Search keyword"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ page, per_page, query }) => {
+    withErrorHandling(async ({ page, per_page, query, all_pages, max_items, format, fields }) => {
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
       if (per_page) params.per_page = String(per_page);
       if (query) params.query = query;
-      const data = await api.get(`${INVOICE_BASE_URL}/billings`, params);
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      const data = await fetchList(
+        api,
+        `${INVOICE_BASE_URL}/billings`,
+        params,
+        { all_pages, max_items }
+      );
+      return formatListResult(data, "billings", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -41,10 +66,10 @@ export function registerInvoiceBillingTools(
         id: z.string().describe("The invoice (billing) ID"),
       }),
     },
-    async ({ id }) => {
+    withErrorHandling(async ({ id }) => {
       const data = await api.get(`${INVOICE_BASE_URL}/billings/${id}`);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -70,15 +95,16 @@ export function registerInvoiceBillingTools(
             excise: z.string().optional().describe("Tax type (e.g. 'tax_include')"),
           })).optional().describe("Line items"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ billing }) => {
-      const data = await api.post(
-        `${INVOICE_BASE_URL}/invoice_template_billings`,
-        { billing }
-      );
+    withErrorHandling(async ({ billing, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/invoice_template_billings`;
+      const body = { billing };
+      if (dry_run) return dryRunResult("POST", url, body, billing.items);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -96,30 +122,184 @@ export function registerInvoiceBillingTools(
           memo: z.string().optional(),
           note: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ id, billing }) => {
-      const data = await api.put(`${INVOICE_BASE_URL}/billings/${id}`, {
-        billing,
-      });
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    withErrorHandling(async ({ id, billing, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/billings/${id}`;
+      const body = { billing };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "invoice_update_billing", action: "update", resource: "billing", url },
+        () => api.put(url, body)
+      );
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "invoice_delete_billing",
     {
-      description: "Delete an invoice. This action is irreversible.",
+      description:
+        "Delete an invoice. This action is irreversible. The first call only previews the invoice and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
         id: z.string().describe("The invoice ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ id }) => {
-      await api.delete(`${INVOICE_BASE_URL}/billings/${id}`);
+    withErrorHandling(async ({ id, confirmation_token, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/billings/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "invoice_delete_billing",
+        action: `delete invoice ${id}`,
+        target: { id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "invoice_delete_billing", action: "delete", resource: "billing", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Invoice ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
+  );
+
+  server.registerTool(
+    "invoice_update_billing_payment_status",
+    {
+      description:
+        "Change an invoice's payment status, e.g. mark it as paid (入金済み) once the partner has paid.",
+      inputSchema: z.object({
+        id: z.string().describe("The invoice ID"),
+        payment_status: z
+          .enum(PAYMENT_STATUSES)
+          .describe(
+            "New payment status: 未設定 (unset), 未入金 (awaiting payment), 入金済み (paid), 未払い (unpaid/overdue), 貸倒れ (uncollectible)"
+          ),
+        ...dryRunShape,
+      }),
+    },
+    withErrorHandling(async ({ id, payment_status, dry_run }) => {
+      const billingUrl = `${INVOICE_BASE_URL}/billings/${id}`;
+      const url = `${billingUrl}/payment_status`;
+      const body = { payment_status };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        {
+          tool: "invoice_update_billing_payment_status",
+          action: "update",
+          resource: "billing_payment_status",
+          url: billingUrl,
+        },
+        () => api.put(url, body)
+      );
       return {
-        content: [{ type: "text" as const, text: `Invoice ${id} deleted.` }],
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
       };
-    }
+    })
+  );
+
+  server.registerTool(
+    "invoice_update_billing_posting_status",
+    {
+      description:
+        "Change an invoice's posting (postal mail) status, e.g. mark it as posted (郵送済み) after mailing a printed copy yourself.",
+      inputSchema: z.object({
+        id: z.string().describe("The invoice ID"),
+        posting_status: z
+          .enum(POSTING_STATUSES)
+          .describe("New posting status: 未郵送 (not posted) or 郵送済み (posted)"),
+        ...dryRunShape,
+      }),
+    },
+    withErrorHandling(async ({ id, posting_status, dry_run }) => {
+      const billingUrl = `${INVOICE_BASE_URL}/billings/${id}`;
+      const url = `${billingUrl}/posting_status`;
+      const body = { posting_status };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        {
+          tool: "invoice_update_billing_posting_status",
+          action: "update",
+          resource: "billing_posting_status",
+          url: billingUrl,
+        },
+        () => api.put(url, body)
+      );
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
+  );
+
+  server.registerTool(
+    "invoice_send_billing_email",
+    {
+      description:
+        "Email an invoice to the partner. This cannot be undone. The first call only previews the invoice and recipients and returns a confirmation_token; call again with that token to send it.",
+      inputSchema: z.object({
+        id: z.string().describe("The invoice ID to send"),
+        email: z.object({
+          to: z.array(z.email()).min(1).describe("Recipient email addresses"),
+          cc: z.array(z.email()).optional().describe("CC email addresses"),
+          subject: z.string().min(1).optional().describe("Subject (default: the office's template)"),
+          message: z.string().optional().describe("Message body (default: the office's template)"),
+        }),
+        ...confirmationShape,
+        ...dryRunShape,
+      }),
+    },
+    withErrorHandling(async ({ id, email, confirmation_token, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/billings/${id}/email`;
+      const body = { email };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const recipients = [...email.to, ...(email.cc ?? [])].join(", ");
+      return confirmOrPreview(confirmations, {
+        tool: "invoice_send_billing_email",
+        action: `email invoice ${id} to ${recipients}`,
+        // The token covers the exact message, so recipients cannot change after the preview
+        target: { id, email },
+        token: confirmation_token,
+        preview: async () => ({ billing: await api.get(`${INVOICE_BASE_URL}/billings/${id}`), email }),
+        execute: async () => {
+          const data = await api.post(url, body);
+          return {
+            content: [
+              { type: "text" as const, text: `Invoice ${id} sent to ${recipients}.` },
+              { type: "text" as const, text: JSON.stringify(data, null, 2) },
+            ],
+          };
+        },
+      });
+    })
   );
 
   server.registerTool(
@@ -136,14 +316,15 @@ export function registerInvoiceBillingTools(
           is_deduct: z.boolean().optional().describe("Whether this is a deduction"),
           excise: z.string().optional().describe("Tax type"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ billing_id, item }) => {
-      const data = await api.post(
-        `${INVOICE_BASE_URL}/billings/${billing_id}/items`,
-        { item }
-      );
+    withErrorHandling(async ({ billing_id, item, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/billings/${billing_id}/items`;
+      const body = { item };
+      if (dry_run) return dryRunResult("POST", url, body, [item]);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 }
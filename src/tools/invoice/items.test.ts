@@ -5,8 +5,10 @@ describe("registerInvoiceItemTools", () => {
   it("registers all item management tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerInvoiceItemTools(mockServer as any, mockApiClient);
+    registerInvoiceItemTools(mockServer as any, mockApiClient, mockConfirmations, mockUndo);
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
@@ -2,13 +2,21 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
 import { INVOICE_BASE_URL } from "../../types/invoice.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers invoice item (product/service template) management tools.
  */
 export function registerInvoiceItemTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   server.registerTool(
     "invoice_list_items",
@@ -19,17 +27,24 @@ export function registerInvoiceItemTools(
         per_page: z.number().optional().describe("Items per page (max 100)"),
         name: z.string().optional().describe("Search by item name"),
         code: z.string().optional().describe("Search by item code"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ page, per_page, name, code }) => {
+    withErrorHandling(async ({ page, per_page, name, code, all_pages, max_items, format, fields }) => {
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
       if (per_page) params.per_page = String(per_page);
       if (name) params.name = name;
       if (code) params.code = code;
-      const data = await api.get(`${INVOICE_BASE_URL}/items`, params);
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      const data = await fetchList(
+        api,
+        `${INVOICE_BASE_URL}/items`,
+        params,
+        { all_pages, max_items }
+      );
+      return formatListResult(data, "items", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -40,10 +55,10 @@ export function registerInvoiceItemTools(
         id: z.string().describe("The item ID"),
       }),
     },
-    async ({ id }) => {
+    withErrorHandling(async ({ id }) => {
       const data = await api.get(`${INVOICE_BASE_URL}/items/${id}`);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -60,12 +75,16 @@ export function registerInvoiceItemTools(
           unit: z.string().optional().describe("Unit label (e.g., '個', '時間')"),
           excise: z.string().optional().describe("Tax type"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ item }) => {
-      const data = await api.post(`${INVOICE_BASE_URL}/items`, { item });
+    withErrorHandling(async ({ item, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/items`;
+      const body = { item };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -83,27 +102,63 @@ export function registerInvoiceItemTools(
           unit: z.string().optional(),
           excise: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ id, item }) => {
-      const data = await api.put(`${INVOICE_BASE_URL}/items/${id}`, { item });
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    withErrorHandling(async ({ id, item, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/items/${id}`;
+      const body = { item };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "invoice_update_item", action: "update", resource: "item", url },
+        () => api.put(url, body)
+      );
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "invoice_delete_item",
     {
-      description: "Delete an item. This action is irreversible.",
+      description:
+        "Delete an item. This action is irreversible. The first call only previews the item and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
         id: z.string().describe("The item ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ id }) => {
-      await api.delete(`${INVOICE_BASE_URL}/items/${id}`);
-      return {
-        content: [{ type: "text" as const, text: `Item ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ id, confirmation_token, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/items/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "invoice_delete_item",
+        action: `delete item ${id}`,
+        target: { id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "invoice_delete_item", action: "delete", resource: "item", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Item ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 }
@@ -5,8 +5,10 @@ describe("registerInvoicePartnerTools", () => {
   it("registers all partner management tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerInvoicePartnerTools(mockServer as any, mockApiClient);
+    registerInvoicePartnerTools(mockServer as any, mockApiClient, mockConfirmations, mockUndo);
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
@@ -2,13 +2,21 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
 import { INVOICE_BASE_URL } from "../../types/invoice.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers invoice partner (business contact) management tools.
  */
 export function registerInvoicePartnerTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   server.registerTool(
     "invoice_list_partners",
@@ -21,18 +29,25 @@ export function registerInvoicePartnerTools(
         name: z.string().optional().describe("Search by partner name"),
         code: z.string().optional().describe("Search by partner code"),
         name_kana: z.string().optional().describe("Search by name kana"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ page, per_page, name, code, name_kana }) => {
+    withErrorHandling(async ({ page, per_page, name, code, name_kana, all_pages, max_items, format, fields }) => {
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
       if (per_page) params.per_page = String(per_page);
       if (name) params.name = name;
       if (code) params.code = code;
       if (name_kana) params.name_kana = name_kana;
-      const data = await api.get(`${INVOICE_BASE_URL}/partners`, params);
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      const data = await fetchList(
+        api,
+        `${INVOICE_BASE_URL}/partners`,
+        params,
+        { all_pages, max_items }
+      );
+      return formatListResult(data, "partners", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -43,10 +58,10 @@ export function registerInvoicePartnerTools(
         id: z.string().describe("The partner ID"),
       }),
     },
-    async ({ id }) => {
+    withErrorHandling(async ({ id }) => {
       const data = await api.get(`${INVOICE_BASE_URL}/partners/${id}`);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -67,12 +82,16 @@ export function registerInvoicePartnerTools(
           tel: z.string().optional().describe("Phone number"),
           email: z.string().optional().describe("Email address"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ partner }) => {
-      const data = await api.post(`${INVOICE_BASE_URL}/partners`, { partner });
+    withErrorHandling(async ({ partner, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/partners`;
+      const body = { partner };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -94,30 +113,64 @@ export function registerInvoicePartnerTools(
           tel: z.string().optional(),
           email: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ id, partner }) => {
-      const data = await api.put(`${INVOICE_BASE_URL}/partners/${id}`, {
-        partner,
-      });
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    withErrorHandling(async ({ id, partner, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/partners/${id}`;
+      const body = { partner };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "invoice_update_partner", action: "update", resource: "partner", url },
+        () => api.put(url, body)
+      );
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "invoice_delete_partner",
     {
-      description: "Delete a partner. This action is irreversible.",
+      description:
+        "Delete a partner. This action is irreversible. The first call only previews the partner and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
         id: z.string().describe("The partner ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ id }) => {
-      await api.delete(`${INVOICE_BASE_URL}/partners/${id}`);
-      return {
-        content: [{ type: "text" as const, text: `Partner ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ id, confirmation_token, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/partners/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "invoice_delete_partner",
+        action: `delete partner ${id}`,
+        target: { id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "invoice_delete_partner", action: "delete", resource: "partner", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Partner ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 
   server.registerTool(
@@ -135,14 +188,15 @@ export function registerInvoicePartnerTools(
           tel: z.string().optional().describe("Phone number"),
           email: z.string().optional().describe("Email address"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ partner_id, department }) => {
-      const data = await api.post(
-        `${INVOICE_BASE_URL}/partners/${partner_id}/departments`,
-        { department }
-      );
+    withErrorHandling(async ({ partner_id, department, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/partners/${partner_id}/departments`;
+      const body = { department };
+      if (dry_run) return dryRunResult("POST", url, body);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 }
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { pdfFileName, registerInvoicePdfTools } from "./pdfs.js";
+
+const PDF = Buffer.from("%PDF-1.7\n...");
+
+describe("pdfFileName", () => {
+  it("names files by partner, number and date", () => {
+    expect(
+      pdfFileName("billing", "42", {
+        partner_name: "Acme / 株式会社",
+        billing_number: "INV-7",
+        billing_date: "2026-09-30",
+      })
+    ).toBe("billing_Acme-株式会社_INV-7_2026-09-30.pdf");
+  });
+
+  it("falls back to the ID and placeholders", () => {
+    expect(pdfFileName("quote", "q1", {})).toBe("quote_unknown-partner_q1_undated.pdf");
+  });
+});
+
+describe("registerInvoicePdfTools", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  function setup(getBinary = vi.fn().mockResolvedValue({ data: PDF, contentType: "application/pdf" })) {
+    dir = mkdtempSync(join(tmpdir(), "mf-pdf-"));
+    const mockServer = { registerTool: vi.fn() };
+    const mockApiClient = {
+      get: vi.fn().mockResolvedValue({
+        id: "42",
+        partner_name: "Acme",
+        billing_number: "INV-7",
+        billing_date: "2026-09-30",
+        pdf_url: "https://invoice.moneyforward.com/api/v3/billings/42.pdf",
+      }),
+      getBinary,
+    } as any;
+    registerInvoicePdfTools(mockServer as any, mockApiClient, dir);
+    const handler = (name: string) =>
+      mockServer.registerTool.mock.calls.find((call: any[]) => call[0] === name)![2];
+    return { mockServer, mockApiClient, handler, dir };
+  }
+
+  it("registers the billing and quote PDF tools", () => {
+    const { mockServer } = setup();
+
+    const toolNames = mockServer.registerTool.mock.calls.map((call: any[]) => call[0]);
+    expect(toolNames).toEqual(["invoice_download_billing_pdf", "invoice_download_quote_pdf"]);
+  });
+
+  it("saves the PDF and optionally embeds it", async () => {
+    const { mockApiClient, handler, dir } = setup();
+
+    const result = await handler("invoice_download_billing_pdf")({ id: "42", embed: true });
+
+    const filePath = join(dir, "billing_Acme_INV-7_2026-09-30.pdf");
+    expect(mockApiClient.getBinary).toHaveBeenCalledWith(
+      "https://invoice.moneyforward.com/api/v3/billings/42.pdf"
+    );
+    expect(readFileSync(filePath)).toEqual(PDF);
+    expect(result.content[0].text).toContain(`Invoice 42 PDF saved to ${filePath}`);
+    expect(result.content[1]).toMatchObject({
+      type: "resource",
+      resource: { mimeType: "application/pdf", blob: PDF.toString("base64") },
+    });
+  });
+
+  it("rejects responses that are not PDFs", async () => {
+    const { handler } = setup(
+      vi.fn().mockResolvedValue({ data: Buffer.from("{}"), contentType: "application/json" })
+    );
+
+    const result = await handler("invoice_download_quote_pdf")({ id: "42" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Expected a PDF");
+  });
+});
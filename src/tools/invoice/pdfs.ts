@@ -0,0 +1,177 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { MfApiClient } from "../../client/mf-api-client.js";
+import { INVOICE_BASE_URL } from "../../types/invoice.js";
+import { withErrorHandling, type ToolResult } from "../errors.js";
+
+/**
+ * Where each downloadable document lives and which fields name its file.
+ *
+ * @property path   - The collection path below the Invoice base URL
+ * @property label  - How the document is called in messages
+ * @property number - The field holding the document number
+ * @property date   - The field holding the document date
+ */
+const PDF_DOCUMENTS = {
+  billing: { path: "billings", label: "Invoice", number: "billing_number", date: "billing_date" },
+  quote: { path: "quotes", label: "Quote", number: "quote_number", date: "quote_date" },
+} as const;
+
+type PdfDocumentKind = keyof typeof PDF_DOCUMENTS;
+
+function asRecord(v: unknown): Record<string, unknown> | null {
+  return typeof v === "object" && v !== null && !Array.isArray(v)
+    ? (v as Record<string, unknown>)
+    : null;
+}
+
+/** Makes a value safe for use in a file name; empty values become undefined. */
+function fileNamePart(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const part = String(value)
+    .trim()
+    .replace(/[\\/:*?"<>|\x00-\x1f\s]+/g, "-")
+    .slice(0, 60);
+  return part === "" ? undefined : part;
+}
+
+/**
+ * Builds the deterministic file name for a document's PDF:
+ * `<kind>_<partner>_<number>_<date>.pdf`.
+ *
+ * Downloading the same document again yields the same name, so the file is
+ * replaced rather than duplicated. Missing fields fall back to the ID, or
+ * to `unknown-partner` / `undated`.
+ *
+ * @param kind     - The document type
+ * @param id       - The document ID
+ * @param document - The document as returned by its get endpoint
+ * @returns The file name
+ *
+ * @example
+ * ```typescript
+ * pdfFileName("billing", "42", { partner_name: "Acme Inc.", billing_number: "INV-7", billing_date: "2026-09-30" });
+ * // "billing_Acme-Inc._INV-7_2026-09-30.pdf"
+ * ```
+ */
+export function pdfFileName(
+  kind: PdfDocumentKind,
+  id: string,
+  document: Record<string, unknown>
+): string {
+  const { number, date } = PDF_DOCUMENTS[kind];
+  const partner = document.partner_name ?? asRecord(document.partner)?.name;
+  return [
+    kind,
+    fileNamePart(partner) ?? "unknown-partner",
+    fileNamePart(document[number]) ?? fileNamePart(id),
+    fileNamePart(String(document[date] ?? "").slice(0, 10)) ?? "undated",
+  ].join("_") + ".pdf";
+}
+
+/**
+ * Fetches a document and its PDF, and saves the PDF to `downloadDir`.
+ *
+ * The PDF is read from the document's `pdf_url` when it points at the
+ * Invoice API (so the token is never sent elsewhere), otherwise from
+ * `<collection>/<id>.pdf`.
+ *
+ * @throws {Error} If the response is not a PDF
+ */
+async function downloadPdf(
+  api: MfApiClient,
+  downloadDir: string,
+  kind: PdfDocumentKind,
+  id: string,
+  embed: boolean | undefined
+): Promise<ToolResult> {
+  const { path, label } = PDF_DOCUMENTS[kind];
+  const data = await api.get(`${INVOICE_BASE_URL}/${path}/${id}`);
+  const document = asRecord(asRecord(data)?.[kind]) ?? asRecord(data) ?? {};
+  const pdfUrl =
+    typeof document.pdf_url === "string" && document.pdf_url.startsWith(`${INVOICE_BASE_URL}/`)
+      ? document.pdf_url
+      : `${INVOICE_BASE_URL}/${path}/${id}.pdf`;
+
+  const pdf = await api.getBinary(pdfUrl);
+  if (pdf.data.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new Error(
+      `Expected a PDF from ${pdfUrl} but received ${pdf.contentType ?? "an unknown content type"}.`
+    );
+  }
+
+  await mkdir(downloadDir, { recursive: true, mode: 0o700 });
+  const filePath = join(downloadDir, pdfFileName(kind, id, document));
+  await writeFile(filePath, pdf.data, { mode: 0o600 });
+
+  const result: ToolResult = {
+    content: [
+      {
+        type: "text" as const,
+        text: `${label} ${id} PDF saved to ${filePath} (${Math.ceil(pdf.data.length / 1024)} KB).`,
+      },
+    ],
+  };
+  if (embed) {
+    result.content.push({
+      type: "resource" as const,
+      resource: {
+        uri: pathToFileURL(filePath).href,
+        mimeType: "application/pdf",
+        blob: pdf.data.toString("base64"),
+      },
+    });
+  }
+  return result;
+}
+
+/**
+ * Registers tools that download rendered invoice and quote PDFs.
+ *
+ * Files are saved under `downloadDir` with a deterministic name built from
+ * the partner, document number and date (see `pdfFileName`).
+ *
+ * @param server      - The MCP server instance
+ * @param api         - The MF API client with auto-auth
+ * @param downloadDir - Directory the PDFs are saved to
+ */
+export function registerInvoicePdfTools(
+  server: McpServer,
+  api: MfApiClient,
+  downloadDir: string
+): void {
+  server.registerTool(
+    "invoice_download_billing_pdf",
+    {
+      description:
+        "Download an invoice's PDF and save it locally. Returns the file path, and optionally the PDF itself as an embedded resource.",
+      inputSchema: z.object({
+        id: z.string().describe("The invoice (billing) ID"),
+        embed: z
+          .boolean()
+          .optional()
+          .describe("Also return the PDF as an embedded resource (default: false)"),
+      }),
+    },
+    withErrorHandling(async ({ id, embed }) => downloadPdf(api, downloadDir, "billing", id, embed))
+  );
+
+  server.registerTool(
+    "invoice_download_quote_pdf",
+    {
+      description:
+        "Download a quote's PDF and save it locally. Returns the file path, and optionally the PDF itself as an embedded resource.",
+      inputSchema: z.object({
+        id: z.string().describe("The quote ID"),
+        embed: z
+          .boolean()
+          .optional()
+          .describe("Also return the PDF as an embedded resource (default: false)"),
+      }),
+    },
+    withErrorHandling(async ({ id, embed }) => downloadPdf(api, downloadDir, "quote", id, embed))
+  );
+}
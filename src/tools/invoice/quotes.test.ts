@@ -5,8 +5,10 @@ describe("registerInvoiceQuoteTools", () => {
   it("registers all quote tools", () => {
     const mockServer = { registerTool: vi.fn() };
     const mockApiClient = {} as any;
+    const mockConfirmations = {} as any;
+    const mockUndo = {} as any;
 
-    registerInvoiceQuoteTools(mockServer as any, mockApiClient);
+    registerInvoiceQuoteTools(mockServer as any, mockApiClient, mockConfirmations, mockUndo);
 
     const toolNames = mockServer.registerTool.mock.calls.map(
       (call: any[]) => call[0]
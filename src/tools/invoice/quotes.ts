@@ -2,13 +2,21 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import type { MfApiClient } from "../../client/mf-api-client.js";
 import { INVOICE_BASE_URL } from "../../types/invoice.js";
+import { fetchList, paginationShape } from "../list.js";
+import { withErrorHandling } from "../errors.js";
+import { dryRunResult, dryRunShape } from "../dry-run.js";
+import { confirmOrPreview, confirmationShape, type ConfirmationStore } from "../confirmation.js";
+import { withSnapshot, type UndoStore } from "../undo.js";
+import { formatListResult, outputShape } from "../projection.js";
 
 /**
  * Registers quote CRUD, line-item, and quote-to-billing conversion tools.
  */
 export function registerInvoiceQuoteTools(
   server: McpServer,
-  api: MfApiClient
+  api: MfApiClient,
+  confirmations: ConfirmationStore,
+  undo: UndoStore
 ): void {
   server.registerTool(
     "invoice_list_quotes",
@@ -18,16 +26,23 @@ export function registerInvoiceQuoteTools(
         page: z.number().optional().describe("Page number"),
         per_page: z.number().optional().describe("Items per page (max 100)"),
         query: z.string().optional().describe("Search keyword"),
+        ...paginationShape,
+        ...outputShape,
       }),
     },
-    async ({ page, per_page, query }) => {
+    withErrorHandling(async ({ page, per_page, query, all_pages, max_items, format, fields }) => {
       const params: Record<string, string> = {};
       if (page) params.page = String(page);
       if (per_page) params.per_page = String(per_page);
       if (query) params.query = query;
-      const data = await api.get(`${INVOICE_BASE_URL}/quotes`, params);
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+      const data = await fetchList(
+        api,
+        `${INVOICE_BASE_URL}/quotes`,
+        params,
+        { all_pages, max_items }
+      );
+      return formatListResult(data, "quotes", { format, fields });
+    })
   );
 
   server.registerTool(
@@ -38,10 +53,10 @@ export function registerInvoiceQuoteTools(
         id: z.string().describe("The quote ID"),
       }),
     },
-    async ({ id }) => {
+    withErrorHandling(async ({ id }) => {
       const data = await api.get(`${INVOICE_BASE_URL}/quotes/${id}`);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -65,12 +80,16 @@ export function registerInvoiceQuoteTools(
             excise: z.string().optional(),
           })).optional().describe("Line items"),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ quote }) => {
-      const data = await api.post(`${INVOICE_BASE_URL}/quotes`, { quote });
+    withErrorHandling(async ({ quote, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/quotes`;
+      const body = { quote };
+      if (dry_run) return dryRunResult("POST", url, body, quote.items);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -87,30 +106,64 @@ export function registerInvoiceQuoteTools(
           memo: z.string().optional(),
           note: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ id, quote }) => {
-      const data = await api.put(`${INVOICE_BASE_URL}/quotes/${id}`, {
-        quote,
-      });
-      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    withErrorHandling(async ({ id, quote, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/quotes/${id}`;
+      const body = { quote };
+      if (dry_run) return dryRunResult("PUT", url, body);
+      const { result: data, hint } = await withSnapshot(
+        undo,
+        api,
+        { tool: "invoice_update_quote", action: "update", resource: "quote", url },
+        () => api.put(url, body)
+      );
+      return {
+        content: [
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+          { type: "text" as const, text: hint },
+        ],
+      };
+    })
   );
 
   server.registerTool(
     "invoice_delete_quote",
     {
-      description: "Delete a quote. This action is irreversible.",
+      description:
+        "Delete a quote. This action is irreversible. The first call only previews the quote and returns a confirmation_token; call again with that token to delete it.",
       inputSchema: z.object({
         id: z.string().describe("The quote ID to delete"),
+        ...confirmationShape,
+        ...dryRunShape,
       }),
     },
-    async ({ id }) => {
-      await api.delete(`${INVOICE_BASE_URL}/quotes/${id}`);
-      return {
-        content: [{ type: "text" as const, text: `Quote ${id} deleted.` }],
-      };
-    }
+    withErrorHandling(async ({ id, confirmation_token, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/quotes/${id}`;
+      if (dry_run) return dryRunResult("DELETE", url);
+      return confirmOrPreview(confirmations, {
+        tool: "invoice_delete_quote",
+        action: `delete quote ${id}`,
+        target: { id },
+        token: confirmation_token,
+        preview: () => api.get(url),
+        execute: async () => {
+          const { hint } = await withSnapshot(
+            undo,
+            api,
+            { tool: "invoice_delete_quote", action: "delete", resource: "quote", url },
+            () => api.delete(url)
+          );
+          return {
+            content: [
+              { type: "text" as const, text: `Quote ${id} deleted.` },
+              { type: "text" as const, text: hint },
+            ],
+          };
+        },
+      });
+    })
   );
 
   server.registerTool(
@@ -127,15 +180,16 @@ export function registerInvoiceQuoteTools(
           is_deduct: z.boolean().optional(),
           excise: z.string().optional(),
         }),
+        ...dryRunShape,
       }),
     },
-    async ({ quote_id, item }) => {
-      const data = await api.post(
-        `${INVOICE_BASE_URL}/quotes/${quote_id}/items`,
-        { item }
-      );
+    withErrorHandling(async ({ quote_id, item, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/quotes/${quote_id}/items`;
+      const body = { item };
+      if (dry_run) return dryRunResult("POST", url, body, [item]);
+      const data = await api.post(url, body);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 
   server.registerTool(
@@ -145,13 +199,14 @@ export function registerInvoiceQuoteTools(
         "Convert a quote to an invoice (billing). Creates a new invoice from the quote.",
       inputSchema: z.object({
         id: z.string().describe("The quote ID to convert"),
+        ...dryRunShape,
       }),
     },
-    async ({ id }) => {
-      const data = await api.post(
-        `${INVOICE_BASE_URL}/quotes/${id}/convert_to_billing`
-      );
+    withErrorHandling(async ({ id, dry_run }) => {
+      const url = `${INVOICE_BASE_URL}/quotes/${id}/convert_to_billing`;
+      if (dry_run) return dryRunResult("POST", url);
+      const data = await api.post(url);
       return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
-    }
+    })
   );
 }
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchList } from "./list.js";
+
+describe("fetchList", () => {
+  it("returns the raw page when pagination args are absent", async () => {
+    const page = { data: [{ id: "1" }], pagination: { total_pages: 5 } };
+    const api = { get: vi.fn().mockResolvedValue(page) } as any;
+
+    const result = await fetchList(api, "https://example.com/x", { page: "2" }, {});
+
+    expect(result).toBe(page);
+    expect(api.get).toHaveBeenCalledWith("https://example.com/x", { page: "2" });
+  });
+
+  it("merges pages under the API's item key when max_items is set", async () => {
+    const api = {
+      get: vi.fn().mockResolvedValue({
+        ex_transactions: [{ id: "1" }, { id: "2" }],
+        meta: { total_count: 10, total_pages: 5 },
+      }),
+    } as any;
+
+    const result = await fetchList(api, "https://example.com/x", {}, { max_items: 3 });
+
+    expect(result).toEqual({
+      ex_transactions: [{ id: "1" }, { id: "2" }, { id: "1" }],
+      total_count: 10,
+      returned_count: 3,
+      pages_fetched: 2,
+      truncated: true,
+    });
+  });
+
+  it("walks all pages when a filter is given", async () => {
+    const api = {
+      get: vi
+        .fn()
+        .mockResolvedValueOnce({ ex_transactions: [{ id: "1" }, { id: "2" }], meta: { total_pages: 2 } })
+        .mockResolvedValueOnce({ ex_transactions: [{ id: "3" }], meta: { total_pages: 2 } }),
+    } as any;
+
+    const result = await fetchList(
+      api,
+      "https://example.com/x",
+      {},
+      {},
+      (item) => (item as { id: string }).id !== "2"
+    );
+
+    expect(result).toEqual({
+      ex_transactions: [{ id: "1" }, { id: "3" }],
+      total_count: 2,
+      returned_count: 2,
+      scanned_count: 3,
+      pages_fetched: 2,
+      truncated: false,
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import type { MfApiClient } from "../client/mf-api-client.js";
+import { fetchAllPages } from "../client/pagination.js";
+
+/** Input schema fields shared by every paginated list tool. */
+export const paginationShape = {
+  all_pages: z
+    .boolean()
+    .optional()
+    .describe("Fetch every page and return one merged result with a total count"),
+  max_items: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of records to return across pages (implies all_pages)"),
+};
+
+/**
+ * Pagination arguments accepted by list tools.
+ *
+ * @property all_pages - Walk through all pages instead of returning one
+ * @property max_items - Cap on merged records; setting it enables all_pages
+ */
+export interface PaginationArgs {
+  all_pages?: boolean;
+  max_items?: number;
+}
+
+/**
+ * Fetches a list endpoint, either as a single page or across all pages.
+ *
+ * In single-page mode the raw API response is returned unchanged. In
+ * all-pages mode the items are merged under the same property the API uses
+ * (e.g. `data`, `ex_transactions`) alongside `total_count`,
+ * `returned_count`, `pages_fetched` and `truncated`.
+ *
+ * A client-side `filter` implies all-pages mode, since matches may be on
+ * any page; `total_count` is then the number of matches found and
+ * `scanned_count` the number of records examined.
+ *
+ * @param api    - The MF API client
+ * @param url    - The list endpoint URL
+ * @param params - Query parameters (filters, page, per_page)
+ * @param args   - The tool's pagination arguments
+ * @param filter - Keeps only the records it accepts
+ * @returns The raw page or the merged result
+ */
+export async function fetchList(
+  api: MfApiClient,
+  url: string,
+  params: Record<string, string>,
+  { all_pages, max_items }: PaginationArgs,
+  filter?: (item: unknown) => boolean
+): Promise<unknown> {
+  if (!all_pages && max_items === undefined && !filter) {
+    return api.get(url, params);
+  }
+  const result = await fetchAllPages(api, url, params, { maxItems: max_items, filter });
+  return {
+    [result.key ?? "data"]: result.items,
+    total_count: result.totalCount,
+    returned_count: result.items.length,
+    ...(filter ? { scanned_count: result.scannedCount } : {}),
+    pages_fetched: result.pagesFetched,
+    truncated: result.truncated,
+  };
+}
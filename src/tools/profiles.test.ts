@@ -0,0 +1,19 @@
+import { describe, it, expect, vi } from "vitest";
+import { registerProfileTools } from "./profiles.js";
+
+describe("registerProfileTools", () => {
+  it("registers mf_profile_list and mf_profile_switch tools", () => {
+    const mockServer = { registerTool: vi.fn() };
+    const mockAuthManager = {} as any;
+    const mockOffices = {} as any;
+
+    registerProfileTools(mockServer as any, mockAuthManager, mockOffices);
+
+    const toolNames = mockServer.registerTool.mock.calls.map(
+      (call: any[]) => call[0]
+    );
+    expect(toolNames).toContain("mf_profile_list");
+    expect(toolNames).toContain("mf_profile_switch");
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(2);
+  });
+});
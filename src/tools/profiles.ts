@@ -0,0 +1,91 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { AuthManager } from "../auth/auth-manager.js";
+import type { ProfileSummary } from "../auth/token-store.js";
+import type { OfficeResolver } from "../client/office-resolver.js";
+import { withErrorHandling } from "./errors.js";
+
+/** Formats a profile as a single human-readable line. */
+function describeProfile(p: ProfileSummary): string {
+  const marker = p.active ? "* " : "  ";
+  const tokens =
+    p.expiresAt === null
+      ? "not logged in"
+      : `token expires ${new Date(p.expiresAt).toISOString()}`;
+  const offices = p.account?.offices.length
+    ? p.account.offices
+        .map((o) => (o.name ? `${o.name} (${o.id})` : o.id))
+        .join(", ")
+    : "unknown";
+  return `${marker}${p.name} — ${tokens} — offices: ${offices}`;
+}
+
+/**
+ * Registers tools for managing named token profiles (one per Money Forward
+ * account, e.g. per client company).
+ *
+ * @param server - The MCP server instance
+ * @param authManager - The auth manager owning the token store
+ * @param offices - Used to look up (and reset) the active profile's offices
+ */
+export function registerProfileTools(
+  server: McpServer,
+  authManager: AuthManager,
+  offices: OfficeResolver
+): void {
+  /** Fetches and caches the active profile's offices if it is logged in. */
+  const refreshAccount = async (): Promise<void> => {
+    const status = await authManager.getAuthStatus();
+    if (!status.authenticated) return;
+    try {
+      const list = await offices.listOffices();
+      await authManager.saveProfileAccount({
+        offices: list,
+        updated_at: Date.now(),
+      });
+    } catch (error) {
+      console.error(
+        `Could not refresh account info for profile ${status.profile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  server.registerTool(
+    "mf_profile_list",
+    {
+      description:
+        "List token profiles (one per Money Forward account) with login state and the offices each belongs to. The active profile is marked with '*'.",
+      inputSchema: z.object({}),
+    },
+    withErrorHandling(async () => {
+      await refreshAccount();
+      const profiles = await authManager.listProfiles();
+      const text = profiles.map(describeProfile).join("\n");
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.registerTool(
+    "mf_profile_switch",
+    {
+      description:
+        "Switch the active token profile. All subsequent tool calls use that profile's Money Forward account. A new profile name creates an empty profile that logs in on first use.",
+      inputSchema: z.object({
+        profile: z.string().describe("The profile name to activate"),
+      }),
+    },
+    withErrorHandling(async ({ profile }) => {
+      authManager.switchProfile(profile);
+      // The previous account's default office does not apply to this one
+      offices.clearDefault();
+      await refreshAccount();
+      const current = (await authManager.listProfiles()).find(
+        (p) => p.name === profile
+      );
+      const text = current
+        ? `Switched to profile:\n${describeProfile(current)}`
+        : `Switched to profile ${profile}.`;
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+}
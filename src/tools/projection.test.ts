@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { formatListResult, pickFields, projectRecord } from "./projection.js";
+
+const billingPage = {
+  data: [
+    {
+      id: "b1",
+      billing_number: "0001",
+      billing_date: "2026-09-30",
+      partner_name: "株式会社テスト",
+      total_price: "110000",
+      payment_status: "unsettled",
+      items: [{ name: "Consulting" }],
+      created_at: "2026-09-01T00:00:00+09:00",
+    },
+  ],
+  pagination: { current_page: 1, total_pages: 1, total_count: 1 },
+};
+
+describe("pickFields", () => {
+  it("selects top-level and dotted fields and skips missing ones", () => {
+    const record = { id: "t1", value: 500, ex_item: { name: "交通費" } };
+    expect(pickFields(record, ["id", "ex_item.name", "missing"])).toEqual({
+      id: "t1",
+      "ex_item.name": "交通費",
+    });
+  });
+});
+
+describe("projectRecord", () => {
+  it("uses compact defaults for known resources", () => {
+    const projected = projectRecord(billingPage.data[0], "billings");
+    expect(projected).toHaveProperty("partner_name", "株式会社テスト");
+    expect(projected).not.toHaveProperty("items");
+    expect(projected).not.toHaveProperty("created_at");
+  });
+
+  it("falls back to scalar fields for unknown shapes", () => {
+    expect(projectRecord({ foo: 1, nested: { a: 1 } }, "unknown")).toEqual({
+      foo: 1,
+    });
+  });
+
+  it("prefers explicit fields over defaults", () => {
+    expect(projectRecord(billingPage.data[0], "billings", ["id", "created_at"])).toEqual({
+      id: "b1",
+      created_at: "2026-09-01T00:00:00+09:00",
+    });
+  });
+});
+
+describe("formatListResult", () => {
+  it("returns compact records and keeps pagination metadata by default", () => {
+    const result = formatListResult(billingPage, "billings", {});
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.pagination).toEqual(billingPage.pagination);
+    expect(parsed.data[0]).toEqual({
+      id: "b1",
+      billing_number: "0001",
+      billing_date: "2026-09-30",
+      partner_name: "株式会社テスト",
+      total_price: "110000",
+      payment_status: "unsettled",
+    });
+  });
+
+  it("returns the raw payload in full mode", () => {
+    const result = formatListResult(billingPage, "billings", { format: "full" });
+    expect(JSON.parse(result.content[0].text)).toEqual(billingPage);
+  });
+
+  it("renders a table with a summary line", () => {
+    const merged = { ex_reports: [{ id: "r1", title: "出張" }], total_count: 1 };
+    const result = formatListResult(merged, "ex_reports", { format: "table" });
+    expect(result.content[0].text).toBe(
+      "total_count: 1\n\nid  title\n--  -----\nr1  出張"
+    );
+  });
+
+  it("renders CSV with the summary in a separate block", () => {
+    const merged = { ex_reports: [{ id: "r1", title: "出張, 大阪" }], total_count: 1 };
+    const result = formatListResult(merged, "ex_reports", { format: "csv" });
+    expect(result.content.map((c) => c.text)).toEqual([
+      'id,title\r\nr1,"出張, 大阪"',
+      "total_count: 1",
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { extractPage } from "../client/pagination.js";
+import type { ToolResult } from "./errors.js";
+import { TABULAR_FORMATS, cellText, renderRows } from "./formatter.js";
+
+/** Output formats supported by list tools. */
+export const OUTPUT_FORMATS = ["full", "compact", ...TABULAR_FORMATS] as const;
+
+/** An output format supported by list tools. */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Input schema fields shared by every list tool for shaping its output. */
+export const outputShape = {
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(
+      "Output format: 'compact' (default, key fields only), 'full' (raw API payload), 'table' (plain-text table), 'markdown' (Markdown table) or 'csv' (RFC 4180 CSV)"
+    ),
+  fields: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Fields to include for each record, overriding the compact defaults. Dotted paths reach nested values (e.g. 'ex_item.name')"
+    ),
+};
+
+/**
+ * Output shaping arguments accepted by list tools.
+ *
+ * @property format - How to render the records
+ * @property fields - Whitelist of (dotted) field paths to keep per record
+ */
+export interface OutputArgs {
+  format?: OutputFormat;
+  fields?: string[];
+}
+
+/**
+ * Default fields kept per resource in compact mode.
+ *
+ * Keys are the resource names passed by the list tools. Paths that a
+ * record does not have are simply omitted.
+ */
+export const COMPACT_FIELDS: Record<string, string[]> = {
+  offices: ["id", "name", "identification_code"],
+  ex_transactions: [
+    "id",
+    "recognized_at",
+    "value",
+    "ex_item.name",
+    "memo",
+    "office_member.name",
+    "ex_report_id",
+  ],
+  ex_reports: [
+    "id",
+    "number",
+    "title",
+    "status",
+    "submitted_at",
+    "total_value",
+    "office_member.name",
+  ],
+  ex_departments: ["id", "code", "name", "is_active"],
+  ex_project_codes: ["id", "code", "name", "is_active"],
+  ex_positions: ["id", "name"],
+  ex_items: ["id", "code", "name", "is_active"],
+  ex_excises: ["id", "name", "rate"],
+  office_members: ["id", "name", "email", "employee_code", "ex_department.name"],
+  ex_journals: ["id", "recognized_at", "value", "remark", "ex_report_id"],
+  billings: [
+    "id",
+    "billing_number",
+    "billing_date",
+    "due_date",
+    "partner_name",
+    "title",
+    "total_price",
+    "payment_status",
+    "posting_status",
+  ],
+  quotes: [
+    "id",
+    "quote_number",
+    "quote_date",
+    "expired_date",
+    "partner_name",
+    "title",
+    "total_price",
+    "order_status",
+  ],
+  partners: ["id", "code", "name", "name_kana", "email"],
+  items: ["id", "code", "name", "unit_price", "unit", "excise"],
+};
+
+/** Returns the value at a dotted path, or undefined if any segment is missing. */
+function getPath(record: unknown, path: string): unknown {
+  let current: unknown = record;
+  for (const segment of path.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/** Keeps only the top-level scalar fields of a record. */
+function scalarFields(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).filter(
+      ([, v]) => v === null || typeof v !== "object"
+    )
+  );
+}
+
+/**
+ * Projects a record onto the given field paths.
+ *
+ * The result is flat: a nested path like `ex_item.name` becomes a key of
+ * the same name. Paths missing from the record are skipped.
+ *
+ * @param record - The API record
+ * @param fields - Field paths to keep
+ * @returns A flat object with the selected fields
+ */
+export function pickFields(
+  record: unknown,
+  fields: string[]
+): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = getPath(record, field);
+    if (value !== undefined) picked[field] = value;
+  }
+  return picked;
+}
+
+/**
+ * Reduces a record to the fields relevant for the given output arguments.
+ *
+ * Explicit `fields` always win. Otherwise compact mode uses the resource's
+ * defaults, falling back to the record's top-level scalar fields when none
+ * of the defaults are present.
+ *
+ * @param record   - The API record
+ * @param resource - The resource name (a key of COMPACT_FIELDS)
+ * @param fields   - Optional explicit whitelist
+ * @returns The projected record
+ */
+export function projectRecord(
+  record: unknown,
+  resource: string,
+  fields?: string[]
+): Record<string, unknown> {
+  if (fields && fields.length > 0) {
+    return pickFields(record, fields);
+  }
+  const defaults = COMPACT_FIELDS[resource];
+  const picked = defaults ? pickFields(record, defaults) : {};
+  if (Object.keys(picked).length > 0) return picked;
+  return typeof record === "object" && record !== null
+    ? scalarFields(record as Record<string, unknown>)
+    : { value: record };
+}
+
+/**
+ * Shapes a list response according to the tool's output arguments.
+ *
+ * Works on both raw pages and merged all-pages results: the item array is
+ * projected and every other top-level value (pagination metadata, counts)
+ * is preserved. In `table` and `markdown` modes those values are printed as
+ * a summary line above the table; in `csv` mode they are returned as a
+ * separate text block so the CSV itself stays machine-readable.
+ *
+ * @param data     - The list response (raw or merged)
+ * @param resource - The resource name (a key of COMPACT_FIELDS)
+ * @param args     - The tool's output arguments
+ * @returns A text tool result
+ */
+export function formatListResult(
+  data: unknown,
+  resource: string,
+  { format = "compact", fields }: OutputArgs
+): ToolResult {
+  if (format === "full" && !fields) {
+    return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+  }
+
+  const { key, items } = extractPage(data);
+  const rows = items.map((item) => projectRecord(item, resource, fields));
+  const rest =
+    typeof data === "object" && data !== null && !Array.isArray(data)
+      ? Object.fromEntries(
+          Object.entries(data).filter(([k]) => k !== key)
+        )
+      : {};
+
+  if (format !== "full" && format !== "compact") {
+    const summary = Object.entries(rest)
+      .map(([k, v]) => `${k}: ${cellText(v)}`)
+      .join(", ");
+    const table = renderRows(rows, format);
+    if (format === "csv") {
+      return {
+        content: summary
+          ? [
+              { type: "text" as const, text: table },
+              { type: "text" as const, text: summary },
+            ]
+          : [{ type: "text" as const, text: table }],
+      };
+    }
+    const text = summary ? `${summary}\n\n${table}` : table;
+    return { content: [{ type: "text" as const, text }] };
+  }
+
+  const shaped =
+    key === null && Array.isArray(data)
+      ? rows
+      : { ...rest, [key ?? "data"]: rows };
+  return { content: [{ type: "text" as const, text: JSON.stringify(shaped, null, 2) }] };
+}
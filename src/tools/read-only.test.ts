@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { isMutatingTool, withReadOnlyFilter, withToolFilter } from "./read-only.js";
+import { registerInvoiceBillingTools } from "./invoice/billings.js";
+
+describe("isMutatingTool", () => {
+  it("flags create/update/delete/approve/convert tools", () => {
+    expect(isMutatingTool("invoice_delete_billing")).toBe(true);
+    expect(isMutatingTool("expense_approve_report")).toBe(true);
+    expect(isMutatingTool("invoice_convert_quote_to_billing")).toBe(true);
+    expect(isMutatingTool("invoice_add_billing_item")).toBe(true);
+    expect(isMutatingTool("invoice_send_billing_email")).toBe(true);
+    expect(isMutatingTool("mf_undo")).toBe(true);
+  });
+
+  it("leaves read and local-state tools alone", () => {
+    expect(isMutatingTool("invoice_list_billings")).toBe(false);
+    expect(isMutatingTool("expense_get_me")).toBe(false);
+    expect(isMutatingTool("expense_set_default_office")).toBe(false);
+    expect(isMutatingTool("mf_profile_switch")).toBe(false);
+  });
+});
+
+describe("withReadOnlyFilter", () => {
+  it("only registers non-mutating tools", () => {
+    const mockServer = { registerTool: vi.fn() };
+
+    registerInvoiceBillingTools(
+      withReadOnlyFilter(mockServer as any),
+      {} as any,
+      {} as any,
+      {} as any
+    );
+
+    const toolNames = mockServer.registerTool.mock.calls.map(
+      (call: any[]) => call[0]
+    );
+    expect(toolNames).toEqual(["invoice_list_billings", "invoice_get_billing"]);
+  });
+});
+
+describe("withToolFilter", () => {
+  it("drops the skipped tools and forwards the rest", () => {
+    const mockServer = { registerTool: vi.fn(), name: "mock" };
+    const filtered = withToolFilter(mockServer as any, (name) => name === "b");
+
+    filtered.registerTool("a", {} as any, vi.fn());
+    filtered.registerTool("b", {} as any, vi.fn());
+
+    expect(mockServer.registerTool.mock.calls.map((call: any[]) => call[0])).toEqual(["a"]);
+    expect((filtered as any).name).toBe("mock");
+  });
+});
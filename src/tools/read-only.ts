@@ -0,0 +1,79 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Verbs that mark a tool as mutating Money Forward data.
+ *
+ * Tool names follow `<service>_<verb>_<resource>`, so a tool is mutating
+ * when one of these appears as a name segment.
+ */
+export const MUTATING_VERBS = [
+  "create",
+  "update",
+  "delete",
+  "add",
+  "approve",
+  "reject",
+  "convert",
+  "send",
+  "undo",
+] as const;
+
+const MUTATING_TOOL_PATTERN = new RegExp(`_(${MUTATING_VERBS.join("|")})_`);
+
+/**
+ * Returns true if the tool creates, changes or deletes Money Forward data.
+ *
+ * @param name - The tool name (e.g. `invoice_delete_billing`)
+ */
+export function isMutatingTool(name: string): boolean {
+  return MUTATING_TOOL_PATTERN.test(`${name}_`);
+}
+
+/**
+ * Wraps a server so that some tools are never registered.
+ *
+ * The registration functions in `tools/` are called with the wrapped
+ * server unchanged; `registerTool` calls for skipped tools are dropped,
+ * so clients never see them. Every other member is forwarded as-is.
+ *
+ * @param server - The MCP server to register tools on
+ * @param skip   - Returns true for tool names that must not be registered
+ * @returns A server whose `registerTool` drops the skipped tools
+ */
+export function withToolFilter(
+  server: McpServer,
+  skip: (name: string) => boolean
+): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "registerTool") {
+        return (name: string, ...rest: unknown[]) => {
+          if (skip(name)) return undefined;
+          return (target.registerTool as (...args: unknown[]) => unknown).call(
+            target,
+            name,
+            ...rest
+          );
+        };
+      }
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Wraps a server so that mutating tools are never registered.
+ *
+ * @param server - The MCP server to register tools on
+ * @returns A server whose `registerTool` skips mutating tools
+ *
+ * @example
+ * ```typescript
+ * const target = readOnly ? withReadOnlyFilter(server) : server;
+ * registerInvoiceBillingTools(target, apiClient);
+ * ```
+ */
+export function withReadOnlyFilter(server: McpServer): McpServer {
+  return withToolFilter(server, isMutatingTool);
+}
@@ -0,0 +1,305 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  MAX_SNAPSHOTS,
+  UndoStore,
+  planUndo,
+  registerUndoTools,
+  withSnapshot,
+  type UndoEntry,
+} from "./undo.js";
+
+const INVOICE = "https://invoice.moneyforward.com/api/v3";
+const EXPENSE = "https://expense.moneyforward.com/api/external/v1";
+
+function entry(overrides: Partial<UndoEntry>): UndoEntry {
+  return {
+    id: "abcd1234",
+    timestamp: "2026-10-01T00:00:00.000Z",
+    profile: "default",
+    tool: "invoice_update_partner",
+    action: "update",
+    resource: "partner",
+    url: `${INVOICE}/partners/7`,
+    snapshot: {},
+    ...overrides,
+  };
+}
+
+describe("planUndo", () => {
+  it("puts the old updatable fields back for an update", () => {
+    const plan = planUndo(
+      entry({
+        snapshot: { id: "7", name: "Old Co", memo: "vip", created_at: "2026-01-01" },
+      })
+    );
+    expect(plan).toEqual({
+      method: "PUT",
+      url: `${INVOICE}/partners/7`,
+      body: { partner: { name: "Old Co", memo: "vip" } },
+    });
+  });
+
+  it("unwraps get responses keyed by the resource", () => {
+    const plan = planUndo(
+      entry({
+        tool: "expense_update_department",
+        resource: "ex_department",
+        url: `${EXPENSE}/offices/1/ex_departments/3`,
+        snapshot: { ex_department: { id: 3, name: "Sales", is_active: true } },
+      })
+    );
+    expect(plan.body).toEqual({ ex_department: { name: "Sales", is_active: true } });
+  });
+
+  it("restores an invoice status through its status endpoint", () => {
+    const plan = planUndo(
+      entry({
+        tool: "invoice_update_billing_payment_status",
+        resource: "billing_payment_status",
+        url: `${INVOICE}/billings/42`,
+        snapshot: { id: "42", title: "October", payment_status: "未入金", posting_status: "未郵送" },
+      })
+    );
+    expect(plan).toEqual({
+      method: "PUT",
+      url: `${INVOICE}/billings/42/payment_status`,
+      body: { payment_status: "未入金" },
+    });
+  });
+
+  it("re-creates a deleted resource on its collection", () => {
+    const plan = planUndo(
+      entry({
+        tool: "invoice_delete_item",
+        action: "delete",
+        resource: "item",
+        url: `${INVOICE}/items/9`,
+        snapshot: { id: "9", name: "Consulting", unit_price: 10000 },
+      })
+    );
+    expect(plan).toEqual({
+      method: "POST",
+      url: `${INVOICE}/items`,
+      body: { item: { name: "Consulting", unit_price: 10000 } },
+    });
+  });
+
+  it("re-creates a deleted invoice with its line items", () => {
+    const plan = planUndo(
+      entry({
+        tool: "invoice_delete_billing",
+        action: "delete",
+        resource: "billing",
+        url: `${INVOICE}/billings/42`,
+        snapshot: {
+          id: "42",
+          partner_id: "p1",
+          items: [{ id: "i1", name: "Fee", quantity: 1, unit_price: 500, price: 500 }],
+        },
+      })
+    );
+    expect(plan).toEqual({
+      method: "POST",
+      url: `${INVOICE}/invoice_template_billings`,
+      body: {
+        billing: {
+          partner_id: "p1",
+          items: [{ name: "Fee", quantity: 1, unit_price: 500 }],
+        },
+      },
+    });
+  });
+
+  it("includes create-only fields when re-creating a member", () => {
+    const plan = planUndo(
+      entry({
+        tool: "expense_delete_member",
+        action: "delete",
+        resource: "office_member",
+        url: `${EXPENSE}/offices/1/office_members/5`,
+        snapshot: { id: 5, email: "a@example.com", name: "Alice" },
+      })
+    );
+    expect(plan.body).toEqual({
+      office_member: { email: "a@example.com", name: "Alice" },
+    });
+  });
+});
+
+describe("UndoStore", () => {
+  let dir: string;
+  let profile: string;
+  let store: UndoStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mf-undo-"));
+    profile = "default";
+    store = new UndoStore(join(dir, "nested", "undo.json"), () => profile);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const change = {
+    tool: "invoice_update_partner",
+    action: "update" as const,
+    resource: "partner" as const,
+    url: `${INVOICE}/partners/7`,
+    snapshot: { name: "Old Co" },
+  };
+
+  it("saves snapshots with owner-only permissions", async () => {
+    const saved = await store.save(change);
+
+    expect(saved).toMatchObject({ profile: "default", tool: "invoice_update_partner" });
+    expect(await store.entries()).toEqual([saved]);
+    expect(statSync(store.filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("finds the newest change of the active profile that is not undone", async () => {
+    const first = await store.save(change);
+    const second = await store.save(change);
+    profile = "client-a";
+    await store.save(change);
+    profile = "default";
+
+    expect((await store.find()).id).toBe(second.id);
+    await store.markUndone(second.id);
+    expect((await store.find()).id).toBe(first.id);
+  });
+
+  it("refuses snapshots of another profile or already undone", async () => {
+    const saved = await store.save(change);
+    await store.markUndone(saved.id);
+    await expect(store.find(saved.id)).rejects.toThrow("already undone");
+
+    profile = "client-a";
+    await expect(store.find(saved.id)).rejects.toThrow("profile default");
+    await expect(store.find()).rejects.toThrow("Nothing to undo");
+  });
+
+  it(`keeps only the newest ${MAX_SNAPSHOTS} snapshots`, async () => {
+    for (let i = 0; i < MAX_SNAPSHOTS + 2; i++) {
+      await store.save({ ...change, url: `${INVOICE}/partners/${i}` });
+    }
+    const entries = await store.entries();
+    expect(entries).toHaveLength(MAX_SNAPSHOTS);
+    expect(entries[0].url).toBe(`${INVOICE}/partners/2`);
+  });
+
+  it("keeps every snapshot when stores on the same file save concurrently", async () => {
+    const other = new UndoStore(store.filePath, () => profile);
+
+    const saved = await Promise.all(
+      Array.from({ length: 6 }, (_, i) =>
+        (i % 2 ? other : store).save({ ...change, url: `${INVOICE}/partners/${i}` })
+      )
+    );
+    await Promise.all([store.markUndone(saved[0].id), other.markUndone(saved[1].id)]);
+
+    const entries = await store.entries();
+    expect(entries.map((e) => e.id).sort()).toEqual(saved.map((e) => e.id).sort());
+    expect(entries.filter((e) => e.undone_at).map((e) => e.id).sort()).toEqual(
+      [saved[0].id, saved[1].id].sort()
+    );
+    expect(readdirSync(join(dir, "nested"))).toEqual(["undo.json"]);
+  });
+});
+
+describe("withSnapshot", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mf-undo-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("does not store a snapshot when the change fails", async () => {
+    const store = new UndoStore(join(dir, "undo.json"), () => "default");
+    const api = { get: vi.fn().mockResolvedValue({ name: "Old Co" }) } as any;
+
+    await expect(
+      withSnapshot(
+        store,
+        api,
+        { tool: "invoice_delete_partner", action: "delete", resource: "partner", url: `${INVOICE}/partners/7` },
+        () => Promise.reject(new Error("boom"))
+      )
+    ).rejects.toThrow("boom");
+    expect(await store.entries()).toEqual([]);
+  });
+
+  it("returns the change's result with a warning when the snapshot cannot be saved", async () => {
+    // A directory where the file should be makes every save fail
+    mkdirSync(join(dir, "undo.json"));
+    const store = new UndoStore(join(dir, "undo.json"), () => "default");
+    const api = { get: vi.fn().mockResolvedValue({ name: "Old Co" }) } as any;
+
+    const outcome = await withSnapshot(
+      store,
+      api,
+      { tool: "invoice_update_partner", action: "update", resource: "partner", url: `${INVOICE}/partners/7` },
+      () => Promise.resolve({ id: "7" })
+    );
+
+    expect(outcome.result).toEqual({ id: "7" });
+    expect(outcome.snapshotId).toBeNull();
+    expect(outcome.hint).toContain("snapshot could not be saved");
+  });
+});
+
+describe("registerUndoTools", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mf-undo-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replays the inverse of an update and marks it undone", async () => {
+    const mockServer = { registerTool: vi.fn() };
+    const store = new UndoStore(join(dir, "undo.json"), () => "default");
+    const mockApiClient = {
+      get: vi.fn().mockResolvedValue({ id: "7", name: "Old Co" }),
+      put: vi.fn().mockResolvedValue({ id: "7" }),
+    } as any;
+
+    registerUndoTools(mockServer as any, mockApiClient, store);
+    expect(mockServer.registerTool.mock.calls[0][0]).toBe("mf_undo");
+    const handler = mockServer.registerTool.mock.calls[0][2];
+
+    const { snapshotId } = await withSnapshot(
+      store,
+      mockApiClient,
+      { tool: "invoice_update_partner", action: "update", resource: "partner", url: `${INVOICE}/partners/7` },
+      () => mockApiClient.put(`${INVOICE}/partners/7`, { partner: { name: "New Co" } })
+    );
+
+    const preview = await handler({ dry_run: true });
+    expect(JSON.parse(preview.content[0].text)).toMatchObject({
+      method: "PUT",
+      body: { partner: { name: "Old Co" } },
+    });
+    expect(mockApiClient.put).toHaveBeenCalledTimes(1);
+
+    const result = await handler({ snapshot_id: snapshotId });
+    expect(mockApiClient.put).toHaveBeenLastCalledWith(`${INVOICE}/partners/7`, {
+      partner: { name: "Old Co" },
+    });
+    expect(result.content[0].text).toContain(`snapshot ${snapshotId}`);
+    expect((await store.entries())[0].undone_at).toBeDefined();
+
+    const again = await handler({ snapshot_id: snapshotId });
+    expect(again.isError).toBe(true);
+  });
+});
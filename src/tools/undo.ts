@@ -0,0 +1,402 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { randomBytes } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { writePrivateFile } from "../auth/token-backend.js";
+import type { MfApiClient } from "../client/mf-api-client.js";
+import { INVOICE_BASE_URL } from "../types/invoice.js";
+import { withErrorHandling } from "./errors.js";
+import { dryRunResult, dryRunShape } from "./dry-run.js";
+import { pickFields } from "./projection.js";
+
+/** How many snapshots are kept; older ones are dropped. */
+export const MAX_SNAPSHOTS = 200;
+
+/** Line-item fields accepted when re-creating an invoice or quote. */
+const LINE_ITEM_FIELDS = ["name", "quantity", "unit_price", "unit", "is_deduct", "excise"];
+
+/**
+ * How to restore one resource type.
+ *
+ * @property key          - The request body wrapper key (e.g. `billing`)
+ * @property fields       - Fields accepted by the update endpoint
+ * @property createFields - Fields accepted by the create endpoint (default: `fields`)
+ * @property createUrl    - Maps the resource URL to its create endpoint
+ *                          (default: the URL without its last segment)
+ * @property updateUrl    - Maps the resource URL to the endpoint that writes
+ *                          `fields` back (default: the URL itself)
+ * @property unwrapped    - Send the fields without the `key` wrapper
+ * @property withItems    - Re-create line items along with the resource
+ */
+interface UndoableResource {
+  key: string;
+  fields: string[];
+  createFields?: string[];
+  createUrl?: (url: string) => string;
+  updateUrl?: (url: string) => string;
+  unwrapped?: boolean;
+  withItems?: boolean;
+}
+
+/** Resource types whose updates and deletes can be undone. */
+export const UNDOABLE_RESOURCES = {
+  billing: {
+    key: "billing",
+    fields: ["department_id", "partner_id", "billing_date", "due_date", "title", "memo", "note"],
+    createUrl: () => `${INVOICE_BASE_URL}/invoice_template_billings`,
+    withItems: true,
+  },
+  // Statuses have their own endpoints, which take the bare field
+  billing_payment_status: {
+    key: "billing",
+    fields: ["payment_status"],
+    updateUrl: (url) => `${url}/payment_status`,
+    unwrapped: true,
+  },
+  billing_posting_status: {
+    key: "billing",
+    fields: ["posting_status"],
+    updateUrl: (url) => `${url}/posting_status`,
+    unwrapped: true,
+  },
+  quote: {
+    key: "quote",
+    fields: ["partner_id", "quote_date", "expired_date", "title", "memo", "note"],
+    withItems: true,
+  },
+  partner: {
+    key: "partner",
+    fields: ["name", "code", "name_kana", "name_suffix", "memo", "zip", "prefecture", "tel", "email"],
+  },
+  item: {
+    key: "item",
+    fields: ["name", "code", "detail", "unit_price", "quantity", "unit", "excise"],
+  },
+  ex_transaction: {
+    key: "ex_transaction",
+    fields: ["is_income", "recognized_at", "value", "memo", "ex_item_id", "dept_id", "project_code_id", "excise_id"],
+  },
+  ex_department: {
+    key: "ex_department",
+    fields: ["name", "code", "is_active", "parent_id"],
+  },
+  ex_project_code: {
+    key: "ex_project_code",
+    fields: ["name", "code", "is_active"],
+  },
+  office_member: {
+    key: "office_member",
+    fields: ["name", "employee_code", "ex_department_id", "ex_position_id"],
+    createFields: ["email", "name", "employee_code", "ex_department_id", "ex_position_id"],
+  },
+} satisfies Record<string, UndoableResource>;
+
+/** A resource type whose changes can be undone. */
+export type UndoableResourceName = keyof typeof UNDOABLE_RESOURCES;
+
+/**
+ * A snapshot taken before an update or delete.
+ *
+ * @property id        - Snapshot ID, passed to `mf_undo`
+ * @property timestamp - When the change was made (ISO 8601)
+ * @property profile   - The token profile the change was made with
+ * @property tool      - The tool that made the change
+ * @property action    - Whether the resource was updated or deleted
+ * @property resource  - The resource type
+ * @property url       - The resource URL
+ * @property snapshot  - The resource as returned by its get endpoint before the change
+ * @property undone_at - When the change was undone, if it was
+ */
+export interface UndoEntry {
+  id: string;
+  timestamp: string;
+  profile: string;
+  tool: string;
+  action: "update" | "delete";
+  resource: UndoableResourceName;
+  url: string;
+  snapshot: unknown;
+  undone_at?: string;
+}
+
+/** The request that reverts a change. */
+export interface UndoPlan {
+  method: "PUT" | "POST";
+  url: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * The tail of each snapshot file's queue of read-modify-write cycles. Keyed
+ * by path so that every store on one file (e.g. one store per HTTP session)
+ * waits for the others' writes instead of overwriting them.
+ */
+const writeQueues = new Map<string, Promise<void>>();
+
+/**
+ * Local store of pre-change snapshots, persisted as one JSON file with
+ * owner-only permissions. Only the newest `MAX_SNAPSHOTS` are kept.
+ *
+ * Writes are serialized per file within the process and replace the file
+ * atomically, so concurrent changes never lose each other's snapshots.
+ *
+ * @example
+ * ```typescript
+ * const undo = new UndoStore("/home/me/.mf-cloud/undo.json", () => authManager.profile);
+ * ```
+ */
+export class UndoStore {
+  constructor(
+    readonly filePath: string,
+    private readonly profile: () => string
+  ) {}
+
+  /** Reads all snapshots, oldest first. */
+  async entries(): Promise<UndoEntry[]> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf-8")) as UndoEntry[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  private async writeEntries(entries: UndoEntry[]): Promise<void> {
+    await writePrivateFile(this.filePath, JSON.stringify(entries, null, 2));
+  }
+
+  /**
+   * Runs a read-modify-write cycle once every earlier cycle on the same
+   * file has settled.
+   */
+  private withWriteLock<T>(cycle: () => Promise<T>): Promise<T> {
+    const previous = writeQueues.get(this.filePath) ?? Promise.resolve();
+    const result = previous.then(cycle);
+    writeQueues.set(
+      this.filePath,
+      result.then(
+        () => undefined,
+        () => undefined
+      )
+    );
+    return result;
+  }
+
+  /**
+   * Saves a snapshot for the active profile.
+   *
+   * @returns The stored entry
+   */
+  async save(
+    entry: Omit<UndoEntry, "id" | "timestamp" | "profile">
+  ): Promise<UndoEntry> {
+    const saved: UndoEntry = {
+      id: randomBytes(4).toString("hex"),
+      timestamp: new Date().toISOString(),
+      profile: this.profile(),
+      ...entry,
+    };
+    await this.withWriteLock(async () => {
+      const entries = [...(await this.entries()), saved].slice(-MAX_SNAPSHOTS);
+      await this.writeEntries(entries);
+    });
+    return saved;
+  }
+
+  /**
+   * Finds the snapshot to undo: the given one, or the newest change of the
+   * active profile that has not been undone yet.
+   *
+   * @param id - The snapshot ID, if the caller chose one
+   * @throws {Error} If there is no such snapshot, it belongs to another
+   *   profile, or it was already undone
+   */
+  async find(id?: string): Promise<UndoEntry> {
+    const profile = this.profile();
+    const entries = await this.entries();
+    const entry = id
+      ? entries.find((e) => e.id === id)
+      : entries.reverse().find((e) => e.profile === profile && !e.undone_at);
+    if (!entry) {
+      throw new Error(id ? `No snapshot ${id} found.` : "Nothing to undo.");
+    }
+    if (entry.profile !== profile) {
+      throw new Error(
+        `Snapshot ${entry.id} was taken with profile ${entry.profile}; switch to it with mf_profile_switch first.`
+      );
+    }
+    if (entry.undone_at) {
+      throw new Error(`Snapshot ${entry.id} was already undone at ${entry.undone_at}.`);
+    }
+    return entry;
+  }
+
+  /** Marks a snapshot as undone. */
+  async markUndone(id: string): Promise<void> {
+    await this.withWriteLock(async () => {
+      const entries = await this.entries();
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) return;
+      entry.undone_at = new Date().toISOString();
+      await this.writeEntries(entries);
+    });
+  }
+}
+
+/** Unwraps `{ billing: {...} }`-style get responses. */
+function recordOf(snapshot: unknown, key: string): Record<string, unknown> {
+  if (typeof snapshot !== "object" || snapshot === null) return {};
+  const wrapped = (snapshot as Record<string, unknown>)[key];
+  return (
+    typeof wrapped === "object" && wrapped !== null ? wrapped : snapshot
+  ) as Record<string, unknown>;
+}
+
+/**
+ * Computes the request that reverts a snapshotted change.
+ *
+ * Updates are reverted by PUTting the old values of the updatable fields
+ * back. Deletes are reverted by re-creating the resource from the
+ * snapshot; the re-created resource gets a new ID.
+ *
+ * @param entry - The snapshot to revert
+ * @returns The inverse request
+ */
+export function planUndo(entry: UndoEntry): UndoPlan {
+  const spec: UndoableResource = UNDOABLE_RESOURCES[entry.resource];
+  const record = recordOf(entry.snapshot, spec.key);
+  if (entry.action === "update") {
+    const fields = pickFields(record, spec.fields);
+    return {
+      method: "PUT",
+      url: spec.updateUrl?.(entry.url) ?? entry.url,
+      body: spec.unwrapped ? fields : { [spec.key]: fields },
+    };
+  }
+
+  const fields = pickFields(record, spec.createFields ?? spec.fields);
+  if (spec.withItems && Array.isArray(record.items)) {
+    fields.items = record.items.map((item) => pickFields(item, LINE_ITEM_FIELDS));
+  }
+  return {
+    method: "POST",
+    url: spec.createUrl?.(entry.url) ?? entry.url.replace(/\/[^/]+$/, ""),
+    body: { [spec.key]: fields },
+  };
+}
+
+/**
+ * Describes the change to snapshot.
+ *
+ * @property tool     - The tool making the change
+ * @property action   - `update` or `delete`
+ * @property resource - The resource type
+ * @property url      - The resource URL (also its get endpoint)
+ */
+export interface SnapshotTarget {
+  tool: string;
+  action: "update" | "delete";
+  resource: UndoableResourceName;
+  url: string;
+}
+
+/**
+ * The outcome of a snapshotted change.
+ *
+ * @property result     - What the change returned
+ * @property snapshotId - The stored snapshot's ID, or null if it could not be saved
+ * @property hint       - Text for the tool result: how to undo the change, or
+ *                        a warning that it cannot be undone
+ */
+export interface SnapshotOutcome<T> {
+  result: T;
+  snapshotId: string | null;
+  hint: string;
+}
+
+/**
+ * Snapshots a resource, applies a change, and stores the snapshot once
+ * the change succeeded.
+ *
+ * The change has already been applied at Money Forward when the snapshot
+ * is stored, so a failure to store it is reported in `hint` rather than
+ * thrown.
+ *
+ * @param undo   - The snapshot store
+ * @param api    - Used to fetch the resource before the change
+ * @param target - What is being changed
+ * @param change - Performs the update or delete
+ * @returns The change's result, the snapshot ID and the undo hint
+ */
+export async function withSnapshot<T>(
+  undo: UndoStore,
+  api: Pick<MfApiClient, "get">,
+  target: SnapshotTarget,
+  change: () => Promise<T>
+): Promise<SnapshotOutcome<T>> {
+  const snapshot = await api.get(target.url);
+  const result = await change();
+  try {
+    const entry = await undo.save({ ...target, snapshot });
+    return { result, snapshotId: entry.id, hint: undoHint(entry.id) };
+  } catch (error) {
+    return {
+      result,
+      snapshotId: null,
+      hint: `Warning: the change was applied, but its snapshot could not be saved (${error instanceof Error ? error.message : String(error)}), so mf_undo cannot revert it.`,
+    };
+  }
+}
+
+/** The hint appended to update/delete results. */
+export function undoHint(snapshotId: string): string {
+  return `Snapshot ${snapshotId} saved. Call mf_undo with snapshot_id "${snapshotId}" to revert this change.`;
+}
+
+/**
+ * Registers the undo tool.
+ *
+ * @param server - The MCP server instance
+ * @param api - The API client used to replay the inverse operation
+ * @param undo - The snapshot store
+ */
+export function registerUndoTools(
+  server: McpServer,
+  api: MfApiClient,
+  undo: UndoStore
+): void {
+  server.registerTool(
+    "mf_undo",
+    {
+      description:
+        "Revert an update or delete made by this server, using the snapshot taken before the change. Updates are reverted by writing the old field values back; deleted partners, items, departments, etc. are re-created (with a new ID). Defaults to the most recent change of the active profile.",
+      inputSchema: z.object({
+        snapshot_id: z
+          .string()
+          .optional()
+          .describe("The snapshot ID shown after the change (default: most recent)"),
+        ...dryRunShape,
+      }),
+    },
+    withErrorHandling(async ({ snapshot_id, dry_run }) => {
+      const entry = await undo.find(snapshot_id);
+      const plan = planUndo(entry);
+      if (dry_run) return dryRunResult(plan.method, plan.url, plan.body);
+      const data =
+        plan.method === "PUT"
+          ? await api.put(plan.url, plan.body)
+          : await api.post(plan.url, plan.body);
+      await undo.markUndone(entry.id);
+      const summary =
+        entry.action === "update"
+          ? `Reverted ${entry.tool} (snapshot ${entry.id}) by restoring the previous values of ${entry.url}.`
+          : `Reverted ${entry.tool} (snapshot ${entry.id}) by re-creating the deleted resource. It has a new ID.`;
+      return {
+        content: [
+          { type: "text" as const, text: summary },
+          { type: "text" as const, text: JSON.stringify(data, null, 2) },
+        ],
+      };
+    })
+  );
+}